@@ -4,25 +4,53 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect, useRef } from 'react';
-import { GeneratedImage, ComplexityLevel, VisualStyle, Language, SearchResultItem, AspectRatio, ImageResolution } from './types';
-import { 
-  researchTopicForPrompt, 
-  generateInfographicImage, 
-  editInfographicImage,
-} from './services/geminiService';
+import { GeneratedImage, ComplexityLevel, VisualStyle, Language, AspectRatio, ImageResolution, StorageUsage, ImageCollectionRef, LocalizeMode, ContextSource, ImageContextRole, ReferenceImage, EditRegion, CustomPreset, PresetKind, BrandKit, GenerationJob, InfographicSeries } from './types';
+import { createJobQueue, getJobConcurrency, isJobActive } from './services/jobQueue';
+import { getBudgetWarning } from './services/usage';
+import {
+  saveImage,
+  loadHistoryPage,
+  countImages,
+  clearHistory,
+  evictOldest,
+  getStorageUsage,
+  migrateLegacyHistory,
+  hasImage,
+  setSeriesPanelImage,
+  HISTORY_PAGE_SIZE,
+  HistoryCursor,
+} from './services/historyStore';
 import Infographic from './components/Infographic';
 import Loading from './components/Loading';
 import SearchResults from './components/SearchResults';
-import { Search, AlertCircle, History, GraduationCap, Palette, Atom, Compass, Globe, Sun, Moon, Key, CreditCard, ExternalLink, DollarSign, FileText, X, Plus, Upload, Link, LayoutTemplate, Zap, Rocket, PlusCircle, Trash2 } from 'lucide-react';
+import VersionTree from './components/VersionTree';
+import BatchPanel from './components/BatchPanel';
+import StoryboardPanel from './components/StoryboardPanel';
+import ProviderSettings from './components/ProviderSettings';
+import ContextPreview from './components/ContextPreview';
+import ExportMenu from './components/ExportMenu';
+import CompareView from './components/CompareView';
+import PresetManager from './components/PresetManager';
+import BrandKitManager from './components/BrandKitManager';
+import PlanReview from './components/PlanReview';
+import JobsPanel from './components/JobsPanel';
+import UsageDashboard from './components/UsageDashboard';
+import { getProviderConfig, saveProviderConfig, ProviderConfig } from './services/config';
+import ErrorBanner, { ErrorState } from './components/ErrorBanner';
+import { classifyError } from './services/errors';
+import { EditSession, EMPTY_EDIT_SESSION, recordEdit, undoEdit, redoEdit, canUndo, canRedo } from './services/editSession';
+import { importProvenancePng } from './services/export/pngMetadata';
+import { ingestFile, ingestUrl, MAX_UPLOAD_BYTES, ACCEPTED_FILE_TYPES } from './services/ingestion';
+import { listPresets, getPreset, isCustomPresetId, presetLabel } from './services/presets';
+import { listBrandKits, getBrandKit, buildBrandCorrectionPrompt } from './services/brandKit';
+import { Search, History, HardDrive, Layers, Cpu, GraduationCap, Palette, Atom, Compass, Globe, Sun, Moon, Key, CreditCard, ExternalLink, DollarSign, FileText, X, Plus, Upload, Link, LayoutTemplate, Zap, Rocket, PlusCircle, Trash2, Loader2, ImagePlus, CheckSquare, Check, FileInput, Columns2, SlidersHorizontal, Stamp, ClipboardCheck, ListChecks, Receipt, Clapperboard } from 'lucide-react';
 
-interface ContextSource {
-  id: string;
-  type: 'file' | 'url';
-  name: string;
-  content: string;
-}
-
-const STORAGE_KEY = 'infogenius_history_v1';
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
 
 const App: React.FC = () => {
   const [topic, setTopic] = useState('');
@@ -34,48 +62,232 @@ const App: React.FC = () => {
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
   const [resolution, setResolution] = useState<ImageResolution>('1K');
   
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState('');
-  const [loadingStep, setLoadingStep] = useState<number>(0);
-  const [loadingFacts, setLoadingFacts] = useState<string[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [jobConcurrency, setJobConcurrency] = useState(getJobConcurrency());
+  const [showJobsPanel, setShowJobsPanel] = useState(false);
+  const [unseenResultIds, setUnseenResultIds] = useState<string[]>([]);
+  // The queue outlives renders; its callbacks go through refs so they always see the latest state
+  const jobDeliveredRef = useRef<(job: GenerationJob, image: GeneratedImage) => void>(() => {});
+  const jobFailedRef = useRef<(job: GenerationJob, err: unknown) => void>(() => {});
+  const [jobQueue] = useState(() => createJobQueue({
+    onChange: setJobs,
+    onDeliver: (job, image) => jobDeliveredRef.current(job, image),
+    onFailed: (job, err) => jobFailedRef.current(job, err),
+  }));
+  const [error, setErrorState] = useState<ErrorState | null>(null);
   
   const [imageHistory, setImageHistory] = useState<GeneratedImage[]>([]);
-  const [currentSearchResults, setCurrentSearchResults] = useState<SearchResultItem[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyCursor, setHistoryCursor] = useState<HistoryCursor | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [collectionFilter, setCollectionFilter] = useState<string>('all');
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [autoCompareId, setAutoCompareId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
+  const [editSession, setEditSession] = useState<EditSession>(EMPTY_EDIT_SESSION);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBatchPanel, setShowBatchPanel] = useState(false);
+  const [showStoryboard, setShowStoryboard] = useState(false);
+  const [updatedSeries, setUpdatedSeries] = useState<InfographicSeries | null>(null);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [showUsageDashboard, setShowUsageDashboard] = useState(false);
+  const [presetManagerKind, setPresetManagerKind] = useState<PresetKind | null>(null);
+  const [customPresets, setCustomPresets] = useState<CustomPreset[]>(listPresets());
+  const [brandKits, setBrandKits] = useState<BrandKit[]>(listBrandKits());
+  const [brandKitId, setBrandKitId] = useState('');
+  const [showBrandKitManager, setShowBrandKitManager] = useState(false);
+  const [reviewPlan, setReviewPlan] = useState(false);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(getProviderConfig());
   const [isDarkMode, setIsDarkMode] = useState(true);
 
   // Context Source State (Array of Files or URLs)
   const [contextSources, setContextSources] = useState<ContextSource[]>([]);
+  const [previewSource, setPreviewSource] = useState<ContextSource | null>(null);
   const [showContextOptions, setShowContextOptions] = useState(false);
   const [showUrlInput, setShowUrlInput] = useState(false);
   const [urlInputValue, setUrlInputValue] = useState('');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // API Key State
   const [hasApiKey, setHasApiKey] = useState(false);
   const [checkingKey, setCheckingKey] = useState(true);
 
-  // Persistence: Load History
+  const setError = (message: string | null) => setErrorState(message ? { message } : null);
+
+  // Classifies a service failure so the banner can show a specific message and recovery action
+  // `context` prefixes the message, e.g. to name which of several parallel runs failed
+  const reportServiceError = (err: unknown, retry?: () => void, context?: string) => {
+    console.error(err);
+    const classified = classifyError(err);
+    if (classified.kind === 'cancelled') return;
+    if (classified.kind === 'auth') {
+      setHasApiKey(false);
+    }
+    setErrorState({ message: context ? `${context}: ${classified.message}` : classified.message, kind: classified.kind, retry });
+  };
+
+  const handleExportError = (err: unknown) => {
+    setError(`Export failed: ${err instanceof Error ? err.message : 'unexpected error'}`);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds(new Set());
+  };
+
+  const refreshStorageUsage = async () => {
+    try {
+      const usage = await getStorageUsage();
+      setStorageUsage(usage);
+      setHistoryTotal(usage.imageCount);
+    } catch (e) {
+      console.error("Failed to read storage usage", e);
+    }
+  };
+
+  // Persistence: Load History (first page only, the rest is fetched on demand)
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
+    const loadHistory = async () => {
       try {
-        const parsed = JSON.parse(saved);
-        setImageHistory(parsed);
-        if (parsed.length > 0) {
-          setActiveImageId(parsed[0].id);
+        await migrateLegacyHistory();
+        const { images: firstPage, next } = await loadHistoryPage(null, HISTORY_PAGE_SIZE);
+        setImageHistory(firstPage);
+        setHistoryCursor(next);
+        setHistoryTotal(await countImages());
+        if (firstPage.length > 0) {
+          setActiveImageId(firstPage[0].id);
         }
       } catch (e) {
-        console.error("Failed to parse saved history", e);
+        console.error("Failed to load saved history", e);
       }
-    }
+      refreshStorageUsage();
+      // Restored after the history so results finished before a reload land on top of it
+      const restoredJobs = await jobQueue.init();
+      if (restoredJobs.some(job => job.status === 'interrupted')) setShowJobsPanel(true);
+    };
+    loadHistory();
   }, []);
 
-  // Persistence: Save History
+  // Persistence: Save a single image as soon as it is created
+  const persistImage = async (image: GeneratedImage) => {
+    try {
+      await saveImage(image);
+    } catch (e) {
+      console.error("Failed to save image to history", e);
+      setError("This image could not be archived because browser storage is full. Free up space in Session Archives.");
+    }
+    refreshStorageUsage();
+  };
+
+  // Older series panels may not be on a loaded history page yet
+  const handleOpenSeriesImage = (image: GeneratedImage) => {
+    setImageHistory(prev => prev.some(img => img.id === image.id) ? prev : [...prev, image].sort((a, b) => b.timestamp - a.timestamp));
+    setActiveImageId(image.id);
+    setShowStoryboard(false);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Files exported by this app carry their archive entry; importing one restores it with its lineage ids intact
+  const handleImportPng = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    let lastId: string | null = null;
+    for (const file of files) {
+      try {
+        // Awaited so a later file in the same import sees this one as taken
+        const image = await importProvenancePng(file, hasImage);
+        setImageHistory(prev => [image, ...prev]);
+        await persistImage(image);
+        lastId = image.id;
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : `Could not import "${file.name}".`);
+      }
+    }
+    if (lastId) {
+      setActiveImageId(lastId);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }
+  };
+
+  const handleLoadMoreHistory = async () => {
+    if (!historyCursor) return;
+    try {
+      const { images: nextPage, next } = await loadHistoryPage(historyCursor, HISTORY_PAGE_SIZE);
+      setHistoryCursor(next);
+      setImageHistory(prev => {
+        const known = new Set(prev.map(img => img.id));
+        return [...prev, ...nextPage.filter(img => !known.has(img.id))];
+      });
+    } catch (e) {
+      console.error("Failed to load more history", e);
+    }
+  };
+
+  const handleEvictOldest = async () => {
+    const answer = window.prompt("How many of the oldest archives should be removed?", "5");
+    const count = answer ? parseInt(answer, 10) : NaN;
+    if (!Number.isFinite(count) || count <= 0) return;
+    try {
+      const evicted = new Set(await evictOldest(count));
+      setImageHistory(prev => prev.filter(img => !evicted.has(img.id)));
+      if (activeImageId && evicted.has(activeImageId)) {
+        setActiveImageId(null);
+      }
+    } catch (e) {
+      console.error("Failed to evict archives", e);
+    }
+    refreshStorageUsage();
+  };
+
+  const imageExists = (id: string) => imageHistory.some(img => img.id === id);
+
+  const handleUndo = () => {
+    if (!activeImageId) return;
+    const result = undoEdit(editSession, activeImageId, imageExists);
+    if (!result) return;
+    setEditSession(result.session);
+    setActiveImageId(result.targetId);
+  };
+
+  const handleRedo = () => {
+    if (!activeImageId) return;
+    const result = redoEdit(editSession, activeImageId, imageExists);
+    if (!result) return;
+    setEditSession(result.session);
+    setActiveImageId(result.targetId);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(imageHistory));
-  }, [imageHistory]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
   useEffect(() => {
     if (isDarkMode) {
@@ -89,7 +301,10 @@ const App: React.FC = () => {
   useEffect(() => {
     const checkKey = async () => {
       try {
-        if (window.aistudio && window.aistudio.hasSelectedApiKey) {
+        if (getProviderConfig().provider === 'mock') {
+          // The offline provider never talks to the API
+          setHasApiKey(true);
+        } else if (window.aistudio && window.aistudio.hasSelectedApiKey) {
           const hasKey = await window.aistudio.hasSelectedApiKey();
           setHasApiKey(hasKey);
         } else {
@@ -116,23 +331,50 @@ const App: React.FC = () => {
     }
   };
 
+  const handleProviderSaved = (config: ProviderConfig) => {
+    setProviderConfig(config);
+    if (config.provider === 'mock') {
+      setHasApiKey(true);
+      setError(null);
+    }
+  };
+
+  // Fall back to the built-in defaults when the selected custom preset was deleted
+  const handlePresetsChanged = () => {
+    setCustomPresets(listPresets());
+    if (isCustomPresetId(complexityLevel) && !getPreset(complexityLevel)) setComplexityLevel('Expert');
+    if (isCustomPresetId(visualStyle) && !getPreset(visualStyle)) setVisualStyle('Default');
+  };
+
+  const handleBrandKitsChanged = () => {
+    setBrandKits(listBrandKits());
+    if (brandKitId && !getBrandKit(brandKitId)) setBrandKitId('');
+  };
+
+  const handleUseMockProvider = () => {
+    saveProviderConfig({ provider: 'mock' });
+    handleProviderSaved(getProviderConfig());
+  };
+
   const handleNewSession = () => {
     setTopic('');
     setContextSources([]);
     setActiveImageId(null);
-    setCurrentSearchResults([]);
+    setEditSession(EMPTY_EDIT_SESSION);
     setError(null);
-    setLoadingFacts([]);
-    setLoadingStep(0);
-    setLoadingMessage('');
   };
 
-  const handleClearHistory = () => {
+  const handleClearHistory = async () => {
     if (window.confirm("Clear all session archives? This cannot be undone.")) {
       setImageHistory([]);
       setActiveImageId(null);
-      setCurrentSearchResults([]);
-      localStorage.removeItem(STORAGE_KEY);
+      setEditSession(EMPTY_EDIT_SESSION);
+      try {
+        await clearHistory();
+      } catch (e) {
+        console.error("Failed to clear history", e);
+      }
+      refreshStorageUsage();
     }
   };
 
@@ -144,76 +386,131 @@ const App: React.FC = () => {
     const fileArray = Array.from(files) as File[];
 
     for (const file of fileArray) {
-        if (file.size > 1024 * 1024) {
-            setError(`File "${file.name}" is too large. Please upload files smaller than 1MB.`);
+        if (file.size > MAX_UPLOAD_BYTES) {
+            setError(`File "${file.name}" is too large. Please upload files smaller than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB.`);
             e.target.value = ''; 
             return;
         }
     }
     
-    fileArray.forEach(file => {
+    fileArray.forEach(async (file) => {
+        const id = Math.random().toString(36).substr(2, 9);
+        setContextSources(prev => [...prev, { id, type: 'file', name: file.name, content: '', status: 'processing' }]);
+        try {
+            const ingested = await ingestFile(file);
+            setContextSources(prev => prev.map(source => source.id === id ? { ...source, ...ingested, status: 'ready' } : source));
+        } catch (err) {
+            console.error(err);
+            const message = err instanceof Error ? err.message : `Could not read "${file.name}".`;
+            setContextSources(prev => prev.map(source => source.id === id ? { ...source, status: 'error', error: message } : source));
+        }
+    });
+
+    setError(null);
+    setShowContextOptions(false);
+    e.target.value = ''; 
+  };
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    (Array.from(files) as File[]).forEach(file => {
+        if (!file.type.startsWith('image/') || file.size > MAX_UPLOAD_BYTES) {
+            setError(`"${file.name}" is not an image under ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB.`);
+            return;
+        }
         const reader = new FileReader();
         reader.onload = (event) => {
-          const content = event.target?.result as string;
-          setContextSources(prev => [...prev, { 
+          setContextSources(prev => [...prev, {
               id: Math.random().toString(36).substr(2, 9),
-              type: 'file', 
-              name: file.name, 
-              content 
+              type: 'image',
+              name: file.name,
+              content: event.target?.result as string,
+              role: 'layout',
+              status: 'ready'
           }]);
         };
-        reader.readAsText(file);
+        reader.readAsDataURL(file);
     });
 
-    setError(null);
     setShowContextOptions(false);
-    e.target.value = ''; 
+    e.target.value = '';
   };
 
-  const handleUrlSubmit = (e: React.FormEvent) => {
+  const setImageRole = (id: string, role: ImageContextRole) => {
+      setContextSources(prev => prev.map(source => source.id === id ? { ...source, role } : source));
+  };
+
+  const handleUrlSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!urlInputValue.trim()) return;
-    
+
+    const id = Math.random().toString(36).substr(2, 9);
+    const url = urlInputValue.trim();
     setContextSources(prev => [...prev, { 
-        id: Math.random().toString(36).substr(2, 9),
+        id,
         type: 'url', 
-        name: urlInputValue, 
-        content: urlInputValue 
+        name: url, 
+        content: url,
+        status: 'processing'
     }]);
 
     setUrlInputValue('');
     setShowUrlInput(false);
     setShowContextOptions(false);
     setError(null);
+
+    // An unreachable page stays as a bare link so the model can still try Google Search
+    try {
+        const ingested = await ingestUrl(url);
+        setContextSources(prev => prev.map(source => source.id === id ? { ...source, ...ingested, status: 'ready' } : source));
+    } catch (err) {
+        console.error(err);
+        const message = err instanceof Error ? err.message : `Could not fetch ${url}.`;
+        setContextSources(prev => prev.map(source => source.id === id ? { ...source, status: 'fallback', error: message } : source));
+    }
   };
 
   const removeContextSource = (id: string) => {
       setContextSources(prev => prev.filter(source => source.id !== id));
   };
 
-  const handleGenerate = async (e: React.FormEvent) => {
+  const handleGenerate = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isLoading) return;
+    runGenerate();
+  };
 
+  const runGenerate = () => {
     if (!topic.trim() && contextSources.length === 0) {
         setError("Please enter a topic or provide context (File/URL) to visualize.");
         return;
     }
 
-    setIsLoading(true);
+    if (contextSources.some(source => source.status === 'processing')) {
+        setError("Please wait until all uploaded documents have been processed.");
+        return;
+    }
+
+    const budgetWarning = getBudgetWarning(resolution);
+    if (budgetWarning && !window.confirm(budgetWarning)) return;
+
     setError(null);
-    setLoadingStep(1);
-    setLoadingFacts([]);
-    setCurrentSearchResults([]);
-    setLoadingMessage(`Researching...`);
+
+    const textSources = contextSources.filter(source => source.type !== 'image' && source.status !== 'error');
+    const references: ReferenceImage[] = contextSources
+        .filter(source => source.type === 'image')
+        .map(source => ({ name: source.name, data: source.content, role: source.role || 'layout' }));
 
     let contextData = null;
-    if (contextSources.length > 0) {
-        contextData = contextSources.map((source, index) => {
+    if (textSources.length > 0) {
+        contextData = textSources.map((source, index) => {
             if (source.type === 'file') {
                 return `SOURCE ${index + 1} (File: ${source.name}):\n${source.content}`;
+            } else if (source.snapshot) {
+                return `SOURCE ${index + 1} (URL: ${source.snapshot.url}, fetched ${new Date(source.snapshot.fetchedAt).toISOString()}):\n${source.content}`;
             } else {
-                return `SOURCE ${index + 1} (URL: ${source.content}):\nPlease visit this URL to gather relevant context.`;
+                return `SOURCE ${index + 1} (URL: ${source.content}):\nThis page could not be fetched. Please visit this URL to gather relevant context.`;
             }
         }).join('\n\n---\n\n');
     }
@@ -224,99 +521,181 @@ const App: React.FC = () => {
         effectiveTopic = `Create a comprehensive infographic visualizing the key concepts from the provided sources (${sourceNames}).`;
     }
 
-    try {
-      const researchResult = await researchTopicForPrompt(
-          effectiveTopic, 
-          complexityLevel, 
-          visualStyle, 
-          language,
-          contextData
-      );
-      
-      setLoadingFacts(researchResult.facts);
-      setCurrentSearchResults(researchResult.searchResults);
-      
-      setLoadingStep(2);
-      setLoadingMessage(`Designing Infographic...`);
-      
-      let base64Data = await generateInfographicImage(researchResult.imagePrompt, aspectRatio, resolution);
-      
-      const newImageId = Date.now().toString();
-      const newImage: GeneratedImage = {
-        id: newImageId,
-        data: base64Data,
-        prompt: effectiveTopic,
-        timestamp: Date.now(),
-        level: complexityLevel,
-        style: visualStyle,
-        language: language,
-        aspectRatio: aspectRatio,
-        resolution: resolution
-      };
-
-      setImageHistory(prev => [newImage, ...prev]);
-      setActiveImageId(newImageId);
-    } catch (err: any) {
-      console.error(err);
-      if (err.message && (err.message.includes("Requested entity was not found") || err.message.includes("404") || err.message.includes("403"))) {
-          setError("Access denied. The selected API key does not have access to the required models. Please select a project with billing enabled.");
-          setHasApiKey(false);
-      } else {
-          setError('The image generation service is temporarily unavailable. Please try again.');
-      }
-    } finally {
-      setIsLoading(false);
-      setLoadingStep(0);
+    jobQueue.enqueue({
+        kind: 'generate',
+        topic: effectiveTopic,
+        settings: { level: complexityLevel, style: visualStyle, language, aspectRatio, resolution, brandKitId: brandKitId || undefined },
+        context: contextData,
+        references,
+        snapshots: textSources.flatMap(source => source.snapshot ? [source.snapshot] : []),
+        reviewPlan
+    }, { originImageId: activeImageId || undefined });
+  };
+
+  // Results arrive in queue order. A result only takes over the main view when the user is still on the image
+  // they queued it from (or on nothing); otherwise it waits, flagged as new, in the Jobs panel.
+  jobDeliveredRef.current = (job, image) => {
+    setImageHistory(prev => [image, ...prev.filter(img => img.id !== image.id)]);
+    persistImage(image);
+    // Assigned here rather than in the storyboard so panels finishing while it is closed are still recorded
+    if (image.seriesPanel) {
+      setSeriesPanelImage(image.seriesPanel.seriesId, image.seriesPanel.panelId, image.id)
+        .then(updated => { if (updated) setUpdatedSeries(updated); })
+        .catch(e => console.error("Failed to update series", e));
+    }
+    if (activeImageId && activeImageId !== job.originImageId) {
+      setUnseenResultIds(prev => [...prev, image.id]);
+      return;
+    }
+    const { input } = job;
+    if (input.kind === 'edit') {
+      setAutoCompareId(image.id);
+      setEditSession(prev => recordEdit(prev, input.source.id, image.id));
     }
+    setActiveImageId(image.id);
   };
 
-  const handleEdit = async (editPrompt: string) => {
+  jobFailedRef.current = (job, err) => {
+    const retry = () => jobQueue.retry(job.id);
+    reportServiceError(err, retry, job.input.kind === 'localize' ? `Localization failed for ${job.input.language}` : undefined);
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    jobQueue.setConcurrency(value);
+    setJobConcurrency(getJobConcurrency());
+  };
+
+  const handleViewJobResult = (imageId: string) => {
+    if (!imageExists(imageId)) {
+      setError("That image is no longer in Session Archives.");
+      return;
+    }
+    setActiveImageId(imageId);
+    setUnseenResultIds(prev => prev.filter(id => id !== imageId));
+    setShowJobsPanel(false);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleEdit = (editPrompt: string, region?: EditRegion) => {
     if (!activeImageId) return;
     const currentImage = imageHistory.find(img => img.id === activeImageId);
     if (!currentImage) return;
-
-    setIsLoading(true);
     setError(null);
-    setLoadingStep(2);
-    setLoadingMessage(`Processing Modification: "${editPrompt}"...`);
+    jobQueue.enqueue({ kind: 'edit', source: currentImage, instruction: editPrompt, region }, { originImageId: currentImage.id });
+  };
 
-    try {
-      const base64Data = await editInfographicImage(currentImage.data, editPrompt);
-      const newImageId = Date.now().toString();
-      const newImage: GeneratedImage = {
-        id: newImageId,
-        data: base64Data,
-        prompt: editPrompt,
-        timestamp: Date.now(),
-        level: currentImage.level,
-        style: currentImage.style,
-        language: currentImage.language,
-        aspectRatio: currentImage.aspectRatio,
-        resolution: currentImage.resolution
-      };
-      setImageHistory(prev => [newImage, ...prev]);
-      setActiveImageId(newImageId);
-    } catch (err: any) {
-      console.error(err);
-      if (err.message && (err.message.includes("Requested entity was not found") || err.message.includes("404") || err.message.includes("403"))) {
-          setError("Access denied. Please select a valid API key with billing enabled.");
-          setHasApiKey(false);
-      } else {
-          setError('Modification failed. Try a different command.');
-      }
-    } finally {
-      setIsLoading(false);
-      setLoadingStep(0);
+  const handleBrandFix = () => {
+    const currentImage = imageHistory.find(img => img.id === activeImageId);
+    if (!currentImage?.brandCheck) return;
+    const kit = getBrandKit(currentImage.brandCheck.kitId);
+    if (!kit) {
+      setError(`The brand kit "${currentImage.brandCheck.kitName}" no longer exists.`);
+      return;
     }
+    handleEdit(buildBrandCorrectionPrompt(currentImage.brandCheck, kit));
   };
 
+  // One job per language, so each variant can be cancelled or retried on its own
+  const handleLocalize = (targetLanguages: Language[], mode: LocalizeMode) => {
+    if (!activeImageId) return;
+    const currentImage = imageHistory.find(img => img.id === activeImageId);
+    if (!currentImage) return;
+    // Always translate from the canonical research so variants don't drift from each other
+    const canonical = imageHistory.find(img => img.id === currentImage.variantOf) || currentImage;
+
+    // Regenerated variants are new images at the source's resolution; edited ones are not
+    const budgetWarning = mode === 'regenerate' ? getBudgetWarning(canonical.resolution || '1K') : null;
+    if (budgetWarning && !window.confirm(budgetWarning)) return;
+
+    setError(null);
+    targetLanguages.forEach(targetLanguage => {
+      jobQueue.enqueue({ kind: 'localize', source: canonical, language: targetLanguage, mode }, { originImageId: activeImageId || undefined });
+    });
+  };
+
+  const activeJobs = jobs.filter(isJobActive);
+  const reviewJob = jobs.find(job => job.status === 'review');
+  // The most recently started job is the one shown with live progress
+  const focusJob = [...jobs].reverse().find(job => job.status === 'running') || jobs.find(job => job.status === 'queued');
+  const isResearchStreaming = !!focusJob && focusJob.input.kind === 'generate' && focusJob.status === 'running' && focusJob.step === 1 && !!focusJob.progress;
+  const hasInterruptedJobs = jobs.some(job => job.status === 'interrupted');
+
   const activeImage = imageHistory.find(img => img.id === activeImageId);
+  const canonicalId = activeImage ? (activeImage.variantOf || activeImage.id) : null;
+  const languageVariants = canonicalId ? imageHistory.filter(img => img.id === canonicalId || img.variantOf === canonicalId).sort((a, b) => a.timestamp - b.timestamp) : [];
+  const collections: ImageCollectionRef[] = Array.from(new Map<string, ImageCollectionRef>(imageHistory.filter(img => img.collection).map(img => [img.collection!.id, img.collection!])).values());
+  const visibleHistory = collectionFilter === 'all' ? imageHistory : imageHistory.filter(img => img.collection?.id === collectionFilter);
   const archivedImages = imageHistory.filter(img => img.id !== activeImageId);
 
   return (
     <>
-    {!checkingKey && !hasApiKey && <KeySelectionModal />}
-    {showUrlInput && <UrlInputModal />}
+    {!checkingKey && !hasApiKey && <KeySelectionModal onUseMock={handleUseMockProvider} />}
+    {showProviderSettings && <ProviderSettings onClose={() => setShowProviderSettings(false)} onSaved={handleProviderSaved} />}
+    {showUsageDashboard && <UsageDashboard onClose={() => setShowUsageDashboard(false)} />}
+    {showBrandKitManager && (
+        <BrandKitManager
+            initialKitId={brandKitId || undefined}
+            onClose={() => setShowBrandKitManager(false)}
+            onChange={handleBrandKitsChanged}
+        />
+    )}
+    {presetManagerKind && (
+        <PresetManager
+            initialKind={presetManagerKind}
+            sampleImage={activeImage?.data}
+            onClose={() => setPresetManagerKind(null)}
+            onChange={handlePresetsChanged}
+        />
+    )}
+    {showUrlInput && (
+        <UrlInputModal
+            value={urlInputValue}
+            onChange={setUrlInputValue}
+            onSubmit={handleUrlSubmit}
+            onCancel={() => { setShowUrlInput(false); setUrlInputValue(''); }}
+        />
+    )}
+    {compareIds && (
+        <CompareView images={imageHistory} leftId={compareIds[0]} rightId={compareIds[1]} onClose={() => setCompareIds(null)} />
+    )}
+    {previewSource && <ContextPreview source={previewSource} onClose={() => setPreviewSource(null)} />}
+    {showJobsPanel && (
+        <JobsPanel
+            jobs={jobs}
+            concurrency={jobConcurrency}
+            onConcurrencyChange={handleConcurrencyChange}
+            onCancel={jobQueue.cancel}
+            onRetry={jobQueue.retry}
+            onRemove={jobQueue.remove}
+            onClearFinished={jobQueue.clearFinished}
+            onView={handleViewJobResult}
+            unseenResultIds={unseenResultIds}
+            onClose={() => { setShowJobsPanel(false); setUnseenResultIds([]); }}
+        />
+    )}
+    {showBatchPanel && (
+        <BatchPanel
+            defaults={{ level: complexityLevel, style: visualStyle, language, aspectRatio, resolution, brandKitId: brandKitId || undefined }}
+            jobs={jobs}
+            onEnqueue={(input) => jobQueue.enqueue(input)}
+            onRetry={jobQueue.retry}
+            onClose={() => setShowBatchPanel(false)}
+        />
+    )}
+    {showStoryboard && (
+        <StoryboardPanel
+            defaults={{ level: complexityLevel, style: visualStyle, language, aspectRatio, resolution, brandKitId: brandKitId || undefined }}
+            initialTopic={topic}
+            jobs={jobs}
+            history={imageHistory}
+            updatedSeries={updatedSeries}
+            onEnqueue={jobQueue.enqueue}
+            onCancel={jobQueue.cancel}
+            onOpenImage={handleOpenSeriesImage}
+            onExportError={handleExportError}
+            onClose={() => setShowStoryboard(false)}
+        />
+    )}
 
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-200 font-sans selection:bg-cyan-500 selection:text-white pb-20 relative overflow-x-hidden animate-in fade-in duration-1000 transition-colors">
       
@@ -353,6 +732,63 @@ const App: React.FC = () => {
                 <span className="hidden md:inline">New Session</span>
               </button>
 
+              <button 
+                onClick={() => importInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+                title="Import an exported PNG back into the archive"
+              >
+                <FileInput className="w-3.5 h-3.5" />
+                <span className="hidden md:inline">Import</span>
+              </button>
+              <input type="file" ref={importInputRef} onChange={handleImportPng} accept="image/png" className="hidden" multiple />
+
+              <button 
+                onClick={() => setShowBatchPanel(true)}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+                title="Generate a series of infographics from a list of topics"
+              >
+                <Layers className="w-3.5 h-3.5" />
+                <span className="hidden md:inline">Batch</span>
+              </button>
+
+              <button 
+                onClick={() => setShowStoryboard(true)}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+                title="Split a complex topic into a storyboard of matching panels"
+              >
+                <Clapperboard className="w-3.5 h-3.5" />
+                <span className="hidden md:inline">Series</span>
+              </button>
+
+              <button 
+                onClick={() => setShowJobsPanel(true)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-medium transition-colors border ${hasInterruptedJobs ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-500/30' : 'bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 border-slate-200 dark:border-white/10'}`}
+                title={hasInterruptedJobs ? "Some jobs were interrupted and can be resumed" : unseenResultIds.length > 0 ? "Finished results are waiting in the Jobs panel" : "Queued generations, edits and translations"}
+              >
+                {activeJobs.length > 0 ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ListChecks className="w-3.5 h-3.5" />}
+                <span className="hidden md:inline">Jobs</span>
+                {activeJobs.length > 0 && <span className="font-mono">{activeJobs.length}</span>}
+                {unseenResultIds.length > 0 && <span className="px-1.5 rounded-full bg-emerald-500 text-white font-mono text-[10px]">{unseenResultIds.length} new</span>}
+              </button>
+
+              <button 
+                onClick={() => setShowUsageDashboard(true)}
+                className="hidden md:flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+                title="Token usage and estimated cost"
+              >
+                <Receipt className="w-3.5 h-3.5" />
+                <span>Usage</span>
+              </button>
+
+              <button 
+                onClick={() => setShowProviderSettings(true)}
+                className={`hidden md:flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-medium transition-colors border ${providerConfig.provider === 'mock' ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-500/30' : 'bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 border-slate-200 dark:border-white/10'}`}
+                title="Model Provider Settings"
+              >
+                <Cpu className="w-3.5 h-3.5" />
+                <span>{providerConfig.provider === 'mock' ? 'Mock' : 'Provider'}</span>
+              </button>
+
               <button 
                 onClick={handleSelectKey}
                 className="hidden md:flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
@@ -392,7 +828,7 @@ const App: React.FC = () => {
             </div>
           )}
 
-          <form onSubmit={handleGenerate} className={`relative z-20 transition-all duration-300 ${isLoading ? 'opacity-50 pointer-events-none scale-95 blur-sm' : 'scale-100'}`}>
+          <form onSubmit={handleGenerate} className="relative z-20 transition-all duration-300 scale-100">
             <div className="relative group">
                 <div className="absolute -inset-1 bg-gradient-to-r from-cyan-500 via-purple-500 to-amber-500 rounded-3xl opacity-10 dark:opacity-20 group-hover:opacity-30 dark:group-hover:opacity-40 transition duration-500 blur-xl"></div>
                 <div className="relative bg-white/80 dark:bg-slate-900/80 backdrop-blur-xl border border-slate-200 dark:border-white/10 p-2 rounded-3xl shadow-2xl">
@@ -427,6 +863,14 @@ const App: React.FC = () => {
                                                 <Upload className="w-4 h-4 text-cyan-600 dark:text-cyan-400" />
                                                 Upload File
                                             </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => imageInputRef.current?.click()}
+                                                className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors text-xs font-bold text-slate-700 dark:text-slate-200 border-t border-slate-100 dark:border-white/5"
+                                            >
+                                                <ImagePlus className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+                                                Add Image
+                                            </button>
                                             <button
                                                 type="button"
                                                 onClick={() => { setShowUrlInput(true); setShowContextOptions(false); }}
@@ -439,16 +883,41 @@ const App: React.FC = () => {
                                     </>
                                 )}
                             </div>
-                            <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".md,.txt,.markdown" className="hidden" multiple />
+                            <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept={ACCEPTED_FILE_TYPES} className="hidden" multiple />
+                            <input type="file" ref={imageInputRef} onChange={handleImageUpload} accept="image/png,image/jpeg,image/webp" className="hidden" multiple />
                         </div>
                     </div>
 
                     {contextSources.length > 0 && (
                         <div className="px-4 pb-2 flex flex-wrap gap-2 max-h-[100px] overflow-y-auto">
                             {contextSources.map((source) => (
-                                <div key={source.id} className="inline-flex items-center gap-2 bg-cyan-50 dark:bg-cyan-900/20 text-cyan-700 dark:text-cyan-300 px-3 py-1.5 rounded-lg text-xs font-bold border border-cyan-200 dark:border-cyan-700/50 shadow-sm max-w-full">
-                                    {source.type === 'file' ? <FileText className="w-3.5 h-3.5 flex-shrink-0" /> : <Link className="w-3.5 h-3.5 flex-shrink-0" />}
-                                    <span className="truncate max-w-[150px]">{source.name}</span>
+                                <div key={source.id} title={source.error} className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold border shadow-sm max-w-full ${source.status === 'error' ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border-red-200 dark:border-red-700/50' : source.status === 'fallback' ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-700/50' : 'bg-cyan-50 dark:bg-cyan-900/20 text-cyan-700 dark:text-cyan-300 border-cyan-200 dark:border-cyan-700/50'}`}>
+                                    {source.type === 'image' ? (
+                                        <img src={source.content} alt="" className="w-5 h-5 rounded object-cover flex-shrink-0" />
+                                    ) : source.status === 'processing' ? <Loader2 className="w-3.5 h-3.5 flex-shrink-0 animate-spin" /> : source.type === 'file' ? <FileText className="w-3.5 h-3.5 flex-shrink-0" /> : <Link className="w-3.5 h-3.5 flex-shrink-0" />}
+                                    {source.type === 'image' ? (
+                                        <span className="truncate max-w-[150px]">{source.name}</span>
+                                    ) : (
+                                        <button type="button" onClick={() => setPreviewSource(source)} disabled={source.status === 'processing' || source.status === 'error' || source.status === 'fallback'} className="truncate max-w-[150px] hover:underline disabled:no-underline disabled:cursor-default">{source.name}</button>
+                                    )}
+                                    {source.type === 'image' && (
+                                        <select
+                                            value={source.role || 'layout'}
+                                            onChange={(e) => setImageRole(source.id, e.target.value as ImageContextRole)}
+                                            className="bg-transparent text-[10px] font-bold uppercase tracking-wider outline-none cursor-pointer"
+                                            title="How this image should be used"
+                                        >
+                                            <option value="layout" className="bg-white dark:bg-slate-900">Layout ref</option>
+                                            <option value="style" className="bg-white dark:bg-slate-900">Style ref</option>
+                                            <option value="asset" className="bg-white dark:bg-slate-900">Must include</option>
+                                        </select>
+                                    )}
+                                    {source.tokenEstimate !== undefined && (
+                                        <span className="text-[10px] font-mono opacity-70">~{source.tokenEstimate.toLocaleString()}t{source.summarized ? ' · summarized' : ''}</span>
+                                    )}
+                                    {source.status === 'fallback' && (
+                                        <span className="text-[10px] font-mono opacity-70">link only</span>
+                                    )}
                                     <button type="button" onClick={() => removeContextSource(source.id)} className="ml-1 p-0.5 hover:bg-cyan-200 dark:hover:bg-cyan-800 rounded-full transition-colors"><X className="w-3.5 h-3.5" /></button>
                                 </div>
                             ))}
@@ -465,8 +934,16 @@ const App: React.FC = () => {
                                 <option value="High School">High School</option>
                                 <option value="College">College</option>
                                 <option value="Expert">Expert</option>
+                                {customPresets.some(p => p.kind === 'audience') && (
+                                    <optgroup label="Custom">
+                                        {customPresets.filter(p => p.kind === 'audience').map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </optgroup>
+                                )}
                             </select>
                         </div>
+                        <button type="button" onClick={() => setPresetManagerKind('audience')} className="p-1.5 rounded-lg text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-white dark:hover:bg-slate-800 shrink-0 z-10 transition-colors" title="Manage custom audiences">
+                            <SlidersHorizontal className="w-4 h-4" />
+                        </button>
                     </div>
                     <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 relative overflow-hidden">
                          <div className="p-2 bg-white dark:bg-slate-800 rounded-lg text-purple-600 dark:text-purple-400 shrink-0 shadow-sm"><Palette className="w-4 h-4" /></div>
@@ -481,8 +958,16 @@ const App: React.FC = () => {
                                 <option value="Futuristic">Cyberpunk HUD</option>
                                 <option value="3D Render">3D Isometric</option>
                                 <option value="Sketch">Technical Blueprint</option>
+                                {customPresets.some(p => p.kind === 'style') && (
+                                    <optgroup label="Custom">
+                                        {customPresets.filter(p => p.kind === 'style').map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </optgroup>
+                                )}
                             </select>
                         </div>
+                        <button type="button" onClick={() => setPresetManagerKind('style')} className="p-1.5 rounded-lg text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-white dark:hover:bg-slate-800 shrink-0 z-10 transition-colors" title="Manage custom styles">
+                            <SlidersHorizontal className="w-4 h-4" />
+                        </button>
                     </div>
                      <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 relative overflow-hidden">
                          <div className="p-2 bg-white dark:bg-slate-800 rounded-lg text-green-600 dark:text-green-400 shrink-0 shadow-sm"><Globe className="w-4 h-4" /></div>
@@ -530,35 +1015,90 @@ const App: React.FC = () => {
                         </div>
                     </div>
                     <div className="flex flex-col gap-1 w-full md:w-auto">
-                        <button type="submit" disabled={isLoading} className="w-full md:w-auto h-full bg-gradient-to-r from-cyan-600 to-blue-600 text-white px-8 py-4 rounded-2xl font-bold font-display tracking-wide hover:brightness-110 transition-all shadow-[0_0_20px_rgba(6,182,212,0.3)] whitespace-nowrap flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed">
+                        <button type="submit" className="w-full md:w-auto h-full bg-gradient-to-r from-cyan-600 to-blue-600 text-white px-8 py-4 rounded-2xl font-bold font-display tracking-wide hover:brightness-110 transition-all shadow-[0_0_20px_rgba(6,182,212,0.3)] whitespace-nowrap flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed">
                             <Rocket className="w-5 h-5" />
                             <span>INITIATE</span>
                         </button>
                     </div>
                     </div>
+                    <div className="flex items-center gap-2 px-4 pb-2 pt-1 text-xs">
+                        <Stamp className="w-3.5 h-3.5 text-slate-400" />
+                        <label htmlFor="brand-kit" className="font-bold text-slate-500 uppercase tracking-wider text-[10px]">Brand Kit</label>
+                        <select id="brand-kit" value={brandKitId} onChange={(e) => setBrandKitId(e.target.value)} className="bg-transparent border-none text-xs font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 pr-6">
+                            <option value="" className="bg-white dark:bg-slate-900">None</option>
+                            {brandKits.map(kit => <option key={kit.id} value={kit.id} className="bg-white dark:bg-slate-900">{kit.name}</option>)}
+                        </select>
+                        {brandKitId && (
+                            <span className="flex gap-1">
+                                {brandKits.find(kit => kit.id === brandKitId)?.colors.map(color => <span key={color} className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: color }} />)}
+                            </span>
+                        )}
+                        <button type="button" onClick={() => setShowBrandKitManager(true)} className="font-bold text-cyan-600 dark:text-cyan-400 hover:underline">Manage</button>
+                        <label className="ml-auto flex items-center gap-2 font-bold text-slate-500 cursor-pointer" title="Pause after research to edit facts, the composition prompt and sources">
+                            <input type="checkbox" checked={reviewPlan} onChange={(e) => setReviewPlan(e.target.checked)} className="accent-cyan-600" />
+                            <ClipboardCheck className="w-3.5 h-3.5" />
+                            Review plan before generating
+                        </label>
+                    </div>
                 </div>
             </div>
           </form>
         </div>
 
-        {isLoading && <Loading status={loadingMessage} step={loadingStep} facts={loadingFacts} />}
+        {focusJob && !reviewJob && (
+            <>
+                <Loading
+                    key={focusJob.id}
+                    status={activeJobs.length > 1 ? `${focusJob.message} (+${activeJobs.length - 1} more jobs)` : focusJob.message}
+                    step={focusJob.step}
+                    facts={focusJob.progress?.facts}
+                    sources={focusJob.progress?.sources}
+                    outputTokens={focusJob.progress?.outputTokens}
+                    live={isResearchStreaming}
+                    onCancel={() => jobQueue.cancel(focusJob.id)}
+                />
+                {isResearchStreaming && <SearchResults results={focusJob.progress?.sources || []} facts={focusJob.progress?.facts} live />}
+            </>
+        )}
+
+        {reviewJob?.plan && (
+            <PlanReview
+                key={reviewJob.id}
+                plan={reviewJob.plan}
+                onApprove={(plan) => jobQueue.approvePlan(reviewJob.id, plan)}
+                onCancel={() => jobQueue.cancel(reviewJob.id)}
+            />
+        )}
 
         {error && (
-          <div className="max-w-2xl mx-auto mt-8 p-6 bg-red-100 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 rounded-2xl flex items-center gap-4 text-red-800 dark:text-red-200 backdrop-blur-sm animate-in fade-in slide-in-from-bottom-4 shadow-sm">
-            <AlertCircle className="w-6 h-6 flex-shrink-0 text-red-500 dark:text-red-400" />
-            <div className="flex-1">
-                <p className="font-medium">{error}</p>
-                {(error.includes("Access denied") || error.includes("billing")) && (
-                    <button onClick={handleSelectKey} className="mt-2 text-xs font-bold text-red-700 dark:text-red-300 underline">Select a different API key</button>
-                )}
-            </div>
-          </div>
+          <ErrorBanner error={error} onSelectKey={handleSelectKey} onDismiss={() => setError(null)} />
         )}
 
-        {activeImage && !isLoading && (
+        {activeImage && (
             <>
-                <Infographic image={activeImage} onEdit={handleEdit} isEditing={isLoading} />
-                <SearchResults results={currentSearchResults} />
+                <Infographic
+                    image={activeImage}
+                    onEdit={handleEdit}
+                    isEditing={activeJobs.some(job => job.input.kind === 'edit' && job.input.source.id === activeImage.id)}
+                    variants={languageVariants}
+                    onSelectVariant={setActiveImageId}
+                    onLocalize={handleLocalize}
+                    onExportError={handleExportError}
+                    previousImage={activeImage.parentId ? imageHistory.find(img => img.id === activeImage.parentId) : undefined}
+                    autoCompare={autoCompareId === activeImage.id}
+                    canUndo={canUndo(editSession, activeImageId, imageExists)}
+                    canRedo={canRedo(editSession, activeImageId, imageExists)}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    onBrandFix={handleBrandFix}
+                />
+                <SearchResults results={activeImage.research?.searchResults || []} facts={activeImage.research?.facts} snapshots={activeImage.sourceSnapshots} />
+                <VersionTree
+                    images={imageHistory}
+                    activeImageId={activeImage.id}
+                    onSelect={(id) => { setActiveImageId(id); window.scrollTo({ top: 0, behavior: 'smooth' }); }}
+                    onCompare={(id) => setCompareIds([id, activeImage.id])}
+                />
             </>
         )}
 
@@ -569,6 +1109,63 @@ const App: React.FC = () => {
                       <History className="w-4 h-4" />
                       Session Archives
                   </h3>
+                  <div className="flex items-center gap-2">
+                  {collections.length > 0 && (
+                    <select
+                      value={collectionFilter}
+                      onChange={(e) => setCollectionFilter(e.target.value)}
+                      className="bg-transparent border border-slate-200 dark:border-white/10 rounded-lg text-[10px] font-bold uppercase tracking-widest text-slate-500 px-2 py-1.5 cursor-pointer"
+                      title="Filter by collection"
+                    >
+                      <option value="all">All Archives</option>
+                      {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                  )}
+                  {storageUsage && (
+                    <span className="hidden sm:flex items-center gap-2 text-[10px] font-mono text-slate-400" title={`${storageUsage.imageCount} archived images`}>
+                      <HardDrive className="w-3.5 h-3.5" />
+                      {formatBytes(storageUsage.usedBytes)}{storageUsage.quotaBytes ? ` / ${formatBytes(storageUsage.quotaBytes)}` : ''}
+                    </span>
+                  )}
+                  {isSelecting && selectedIds.size === 2 && (
+                    <button
+                      onClick={() => {
+                        // Oldest on the left so the comparison reads as before -> after
+                        const [a, b] = imageHistory.filter(img => selectedIds.has(img.id)).sort((x, y) => x.timestamp - y.timestamp);
+                        setCompareIds([a.id, b.id]);
+                      }}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-[10px] font-bold uppercase tracking-widest border border-slate-200 dark:border-white/10 hover:text-cyan-600"
+                      title="Compare the two selected images"
+                    >
+                      <Columns2 className="w-3.5 h-3.5" />
+                      <span>Compare</span>
+                    </button>
+                  )}
+                  {isSelecting && (
+                    <ExportMenu
+                      images={imageHistory.filter(img => selectedIds.has(img.id))}
+                      label={`Export (${selectedIds.size})`}
+                      onError={handleExportError}
+                      buttonClassName="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-cyan-600 text-white text-[10px] font-bold uppercase tracking-widest disabled:opacity-50"
+                      iconClassName="w-3.5 h-3.5"
+                    />
+                  )}
+                  <button
+                    onClick={toggleSelecting}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-all text-[10px] font-bold uppercase tracking-widest border ${isSelecting ? 'text-cyan-600 border-cyan-500/30 bg-cyan-50 dark:bg-cyan-950/30' : 'text-slate-400 hover:text-cyan-600 border-transparent hover:border-cyan-500/20'}`}
+                    title="Select archives to export"
+                  >
+                    <CheckSquare className="w-3.5 h-3.5" />
+                    <span>{isSelecting ? 'Done' : 'Select'}</span>
+                  </button>
+                  <button 
+                    onClick={handleEvictOldest}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-slate-400 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-950/30 transition-all text-[10px] font-bold uppercase tracking-widest border border-transparent hover:border-amber-500/20"
+                    title="Remove the oldest archives to free up space"
+                  >
+                    <HardDrive className="w-3.5 h-3.5" />
+                    <span>Free Space</span>
+                  </button>
                   <button 
                     onClick={handleClearHistory}
                     className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/30 transition-all text-[10px] font-bold uppercase tracking-widest border border-transparent hover:border-red-500/20"
@@ -577,6 +1174,7 @@ const App: React.FC = () => {
                     <Trash2 className="w-3.5 h-3.5" />
                     <span>Clear All</span>
                   </button>
+                  </div>
                 </div>
                 
                 {imageHistory.length === 0 ? (
@@ -585,24 +1183,50 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 md:gap-6">
-                      {imageHistory.map((img) => (
+                      {visibleHistory.map((img) => (
                           <div 
                               key={img.id} 
-                              onClick={() => { setActiveImageId(img.id); window.scrollTo({ top: 0, behavior: 'smooth' }); }}
-                              className={`group relative cursor-pointer rounded-2xl overflow-hidden border transition-all shadow-lg bg-white dark:bg-slate-900/50 backdrop-blur-sm ${img.id === activeImageId ? 'border-cyan-500 ring-2 ring-cyan-500/20 scale-[1.02]' : 'border-slate-200 dark:border-white/10 hover:border-cyan-500/50'}`}
+                              onClick={() => {
+                                  if (isSelecting) {
+                                      toggleSelected(img.id);
+                                      return;
+                                  }
+                                  setActiveImageId(img.id);
+                                  window.scrollTo({ top: 0, behavior: 'smooth' });
+                              }}
+                              className={`group relative cursor-pointer rounded-2xl overflow-hidden border transition-all shadow-lg bg-white dark:bg-slate-900/50 backdrop-blur-sm ${(isSelecting ? selectedIds.has(img.id) : img.id === activeImageId) ? 'border-cyan-500 ring-2 ring-cyan-500/20 scale-[1.02]' : 'border-slate-200 dark:border-white/10 hover:border-cyan-500/50'}`}
                           >
+                              {isSelecting && (
+                                  <div className={`absolute top-3 left-3 z-10 w-6 h-6 rounded-md border-2 flex items-center justify-center ${selectedIds.has(img.id) ? 'bg-cyan-600 border-cyan-600 text-white' : 'bg-black/40 border-white/70'}`}>
+                                      {selectedIds.has(img.id) && <Check className="w-4 h-4" />}
+                                  </div>
+                              )}
                               <img src={img.data} alt={img.prompt} className="w-full aspect-video object-cover opacity-90 dark:opacity-70 group-hover:opacity-100 transition-opacity duration-500" />
                               <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-4 pt-8 translate-y-4 group-hover:translate-y-0 transition-transform duration-300">
                                   <p className="text-xs text-white font-bold truncate mb-1 font-display">{img.prompt}</p>
-                                  <div className="flex gap-2">
-                                      {img.level && <span className="text-[9px] text-cyan-100 uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-cyan-900/60 border border-cyan-500/20">{img.level}</span>}
+                                  <div className="flex flex-wrap gap-2">
+                                      {img.collection && <span className="text-[9px] text-emerald-100 uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-emerald-900/60 border border-emerald-500/20 truncate max-w-full">{img.collection.name}</span>}
+                                      {!!img.revision && <span className="text-[9px] text-indigo-100 uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-indigo-900/60 border border-indigo-500/20">Rev {img.revision}</span>}
+                                      {img.level && <span className="text-[9px] text-cyan-100 uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-cyan-900/60 border border-cyan-500/20">{presetLabel(img.level, img.customPresets)}</span>}
                                       {img.resolution && <span className="text-[9px] text-amber-100 uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-amber-900/60 border border-amber-500/20">{img.resolution}</span>}
+                                      {img.research && img.research.searchResults.length > 0 && <span className="text-[9px] text-purple-100 uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-purple-900/60 border border-purple-500/20" title={img.research.searchResults.map(r => r.title).join('\n')}>{img.research.searchResults.length} Sources</span>}
                                   </div>
                               </div>
                           </div>
                       ))}
                   </div>
                 )}
+
+                {historyCursor && imageHistory.length < historyTotal && (
+                  <div className="flex justify-center mt-8">
+                    <button
+                      onClick={handleLoadMoreHistory}
+                      className="px-4 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-bold uppercase tracking-widest transition-colors border border-slate-200 dark:border-white/10"
+                    >
+                      Load More ({historyTotal - imageHistory.length} remaining)
+                    </button>
+                  </div>
+                )}
             </div>
         )}
       </main>
@@ -611,7 +1235,7 @@ const App: React.FC = () => {
   );
 };
 
-const KeySelectionModal = () => (
+const KeySelectionModal = ({ onUseMock }: { onUseMock: () => void }) => (
     <div className="fixed inset-0 z-[200] bg-slate-950/90 backdrop-blur-md flex items-center justify-center p-4">
         <div className="bg-white dark:bg-slate-900 border-2 border-amber-500/50 rounded-2xl shadow-2xl max-w-md w-full p-6 md:p-8 relative overflow-hidden">
             <div className="absolute top-0 left-0 w-full h-1.5 bg-gradient-to-r from-amber-500 via-orange-500 to-red-500"></div>
@@ -626,23 +1250,32 @@ const KeySelectionModal = () => (
                     <p className="text-slate-600 dark:text-slate-300 text-sm">This app uses premium Gemini models. Standard API keys will fail.</p>
                 </div>
                 <button onClick={() => window.aistudio.openSelectKey()} className="w-full py-3.5 bg-gradient-to-r from-amber-600 to-orange-600 text-white rounded-xl font-bold">Select Paid API Key</button>
+                <button onClick={onUseMock} className="text-xs font-bold text-slate-500 dark:text-slate-400 underline">Continue offline with the mock provider</button>
             </div>
         </div>
     </div>
 );
 
-const UrlInputModal = () => (
+interface UrlInputModalProps {
+    value: string;
+    onChange: (value: string) => void;
+    onSubmit: (e: React.FormEvent) => void;
+    onCancel: () => void;
+}
+
+const UrlInputModal: React.FC<UrlInputModalProps> = ({ value, onChange, onSubmit, onCancel }) => (
     <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4">
-        <form className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-md p-6 relative overflow-hidden z-10">
+        <form onSubmit={onSubmit} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-md p-6 relative overflow-hidden z-10">
             <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-4 flex items-center gap-2">
                 <Link className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
                 Add Link Context
             </h3>
             <div className="space-y-4">
-                <input type="url" placeholder="https://example.com" className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3" />
+                <input type="url" value={value} onChange={(e) => onChange(e.target.value)} autoFocus placeholder="https://example.com" className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-slate-900 dark:text-slate-100" />
+                <p className="text-[10px] text-slate-500">The page is fetched and its article text is used as a source. Pages that cannot be reached are passed to the model as a link instead.</p>
                 <div className="flex gap-3">
-                    <button type="button" className="flex-1 px-4 py-2.5 rounded-xl text-slate-600 font-bold">Cancel</button>
-                    <button type="submit" className="flex-1 px-4 py-2.5 rounded-xl bg-cyan-600 text-white font-bold">Add Link</button>
+                    <button type="button" onClick={onCancel} className="flex-1 px-4 py-2.5 rounded-xl text-slate-600 font-bold">Cancel</button>
+                    <button type="submit" disabled={!value.trim()} className="flex-1 px-4 py-2.5 rounded-xl bg-cyan-600 text-white font-bold disabled:opacity-50">Add Link</button>
                 </div>
             </div>
         </form>
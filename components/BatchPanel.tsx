@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchRow, BatchRowStatus, GenerationJob, GenerationSettings, ImageCollectionRef, JobInput } from '../types';
+import { parseBatchFile, parseBatchText } from '../services/batchInput';
+import { isJobActive } from '../services/jobQueue';
+import { presetLabel } from '../services/presets';
+import { getBudgetWarning } from '../services/usage';
+import { Layers, X, Upload, Play, RotateCcw, CheckCircle2, AlertCircle, Loader2, Clock } from 'lucide-react';
+
+interface BatchPanelProps {
+  defaults: GenerationSettings;
+  jobs: GenerationJob[];
+  onEnqueue: (input: JobInput) => GenerationJob;
+  onRetry: (jobId: string) => void;
+  onClose: () => void;
+}
+
+interface BatchRowState extends BatchRow {
+  status: BatchRowStatus;
+  message: string;
+  jobId?: string;
+}
+
+const rowStatus = (job: GenerationJob): BatchRowStatus => {
+  if (isJobActive(job)) return 'running';
+  return job.status === 'done' ? 'done' : 'failed';
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ defaults, jobs, onEnqueue, onRetry, onClose }) => {
+  const [inputText, setInputText] = useState('');
+  const [rows, setRows] = useState<BatchRowState[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [collectionName, setCollectionName] = useState('');
+  const collectionRef = useRef<ImageCollectionRef | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadRows = (parsedRows: BatchRow[], errors: string[]) => {
+    setRows(parsedRows.map(row => ({ ...row, status: 'pending', message: '' })));
+    setParseErrors(errors);
+    collectionRef.current = null;
+  };
+
+  const handleParseText = () => {
+    const { rows: parsedRows, errors } = parseBatchText(inputText);
+    loadRows(parsedRows, errors);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const { rows: parsedRows, errors } = parseBatchFile(file.name, event.target?.result as string);
+      loadRows(parsedRows, errors);
+      if (!collectionName) setCollectionName(file.name.replace(/\.[^.]+$/, ''));
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  // Rows follow their jobs. A job cleared from the Jobs panel leaves its row at the last status it reported.
+  useEffect(() => {
+    setRows(prev => prev.map(row => {
+      const job = jobs.find(j => j.id === row.jobId);
+      if (!job) return row;
+      const status = rowStatus(job);
+      return { ...row, status, message: status === 'done' ? 'Added to archive' : job.error || job.message };
+    }));
+  }, [jobs]);
+
+  const runRows = (targets: BatchRowState[]) => {
+    if (targets.length === 0) return;
+    // Rows only override level, style, language and format, so every row uses the default resolution
+    const budgetWarning = getBudgetWarning(defaults.resolution, targets.length);
+    if (budgetWarning && !window.confirm(budgetWarning)) return;
+
+    // Retries land in the same collection as the original run
+    if (!collectionRef.current) {
+      collectionRef.current = {
+        id: Math.random().toString(36).substr(2, 9),
+        name: collectionName.trim() || `Batch ${new Date().toLocaleString()}`
+      };
+    }
+    const collection = collectionRef.current;
+
+    // Failed jobs still in the Jobs panel are retried there rather than queued a second time
+    const jobIds = new Map<string, string>();
+    for (const row of targets) {
+      if (row.jobId && jobs.some(job => job.id === row.jobId)) {
+        onRetry(row.jobId);
+        continue;
+      }
+      const settings: GenerationSettings = {
+        ...defaults,
+        level: row.level ?? defaults.level,
+        style: row.style ?? defaults.style,
+        language: row.language ?? defaults.language,
+        aspectRatio: row.aspectRatio ?? defaults.aspectRatio,
+      };
+      const job = onEnqueue({ kind: 'generate', topic: row.topic, settings, context: null, references: [], snapshots: [], reviewPlan: false, collection });
+      jobIds.set(row.id, job.id);
+    }
+    setRows(prev => prev.map(row => targets.some(t => t.id === row.id)
+      ? { ...row, status: 'running', message: 'Queued', jobId: jobIds.get(row.id) ?? row.jobId }
+      : row));
+  };
+
+  const pendingRows = rows.filter(row => row.status === 'pending');
+  const failedRows = rows.filter(row => row.status === 'failed');
+  const doneCount = rows.filter(row => row.status === 'done').length;
+  const isRunning = rows.some(row => row.status === 'running');
+
+  const statusIcon = (status: BatchRowStatus) => {
+    switch (status) {
+      case 'running': return <Loader2 className="w-4 h-4 text-cyan-500 animate-spin" />;
+      case 'done': return <CheckCircle2 className="w-4 h-4 text-emerald-500" />;
+      case 'failed': return <AlertCircle className="w-4 h-4 text-red-500" />;
+      default: return <Clock className="w-4 h-4 text-slate-400" />;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-200 dark:border-white/10">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <Layers className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+            Batch Generation
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            title={isRunning ? "Close (queued topics keep running in the Jobs panel)" : "Close"}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <textarea
+            value={inputText}
+            onChange={(e) => setInputText(e.target.value)}
+            placeholder={"One topic per line, or paste CSV with a header row:\ntopic,level,style,language,aspectRatio\nPhotosynthesis,High School,Minimalist,Spanish,16:9"}
+            rows={5}
+            disabled={isRunning}
+            className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm font-mono text-slate-900 dark:text-slate-100"
+          />
+
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={handleParseText} disabled={isRunning || !inputText.trim()} className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold disabled:opacity-50">
+              Load Topics
+            </button>
+            <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isRunning} className="px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+              <Upload className="w-3.5 h-3.5" />
+              Upload CSV / JSON
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".csv,.json,.txt" className="hidden" />
+          </div>
+
+          {parseErrors.length > 0 && (
+            <ul className="text-xs text-red-600 dark:text-red-300 space-y-1">
+              {parseErrors.map((err, index) => <li key={index}>{err}</li>)}
+            </ul>
+          )}
+
+          <div>
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Collection Name</label>
+            <input
+              type="text"
+              value={collectionName}
+              onChange={(e) => setCollectionName(e.target.value)}
+              placeholder="e.g. Biology 101 - Chapters"
+              disabled={isRunning}
+              className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm text-slate-900 dark:text-slate-100"
+            />
+            <p className="mt-1 text-[10px] text-slate-500">Topics run as background jobs at the Jobs panel's parallel setting, so you can close this window while they finish.</p>
+          </div>
+
+          {rows.length > 0 && (
+            <div className="border border-slate-200 dark:border-white/10 rounded-xl divide-y divide-slate-200 dark:divide-white/5">
+              {rows.map(row => (
+                <div key={row.id} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                  {statusIcon(row.status)}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-slate-800 dark:text-slate-200 truncate">{row.topic}</p>
+                    <p className="text-[10px] font-mono text-slate-500 truncate">
+                      {[row.level && presetLabel(row.level), row.style && presetLabel(row.style), row.language, row.aspectRatio].filter(Boolean).join(' · ') || 'Current settings'}
+                      {row.message && ` — ${row.message}`}
+                    </p>
+                  </div>
+                  {row.status === 'failed' && (
+                    <button onClick={() => runRows([row])} className="p-1.5 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-800" title="Retry this row">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 pt-4 border-t border-slate-200 dark:border-white/10">
+          <span className="text-xs font-mono text-slate-500">
+            {rows.length > 0 ? `${doneCount} / ${rows.length} complete` : 'No topics loaded'}
+          </span>
+          <div className="flex gap-2">
+            {failedRows.length > 0 && (
+              <button onClick={() => runRows(failedRows)} className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+                <RotateCcw className="w-3.5 h-3.5" />
+                Retry Failed ({failedRows.length})
+              </button>
+            )}
+            <button onClick={() => runRows(pendingRows)} disabled={pendingRows.length === 0} className="px-4 py-2.5 rounded-xl bg-cyan-600 text-white text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+              {isRunning && pendingRows.length === 0 ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+              {isRunning && pendingRows.length === 0 ? 'Running...' : `Run ${pendingRows.length} Topics`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
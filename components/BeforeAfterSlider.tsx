@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { MoveHorizontal } from 'lucide-react';
+
+interface BeforeAfterSliderProps {
+  before: string;
+  after: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+  className?: string;
+}
+
+// Swipe comparison: the "before" image is revealed left of the handle, the "after" image right of it
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ before, after, beforeLabel = 'Before', afterLabel = 'After', className = '' }) => {
+  const [position, setPosition] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  const updateFromPointer = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    draggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    updateFromPointer(e.clientX);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') setPosition(prev => Math.max(0, prev - 2));
+    if (e.key === 'ArrowRight') setPosition(prev => Math.min(100, prev + 2));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={(e) => draggingRef.current && updateFromPointer(e.clientX)}
+      onPointerUp={() => { draggingRef.current = false; }}
+      className={`relative select-none touch-none cursor-ew-resize overflow-hidden ${className}`}
+    >
+      <img src={after} alt={afterLabel} draggable={false} className="block w-full h-auto object-contain max-h-[80vh] bg-checkered" />
+      <img
+        src={before}
+        alt={beforeLabel}
+        draggable={false}
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        className="absolute inset-0 w-full h-full object-contain bg-checkered"
+      />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_8px_rgba(0,0,0,0.5)] pointer-events-none" style={{ left: `${position}%` }}>
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-valuenow={Math.round(position)}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-label="Comparison position"
+          onKeyDown={handleKeyDown}
+          className="pointer-events-auto absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-9 h-9 rounded-full bg-white text-slate-700 shadow-lg flex items-center justify-center"
+        >
+          <MoveHorizontal className="w-4 h-4" />
+        </div>
+      </div>
+      <span className="absolute top-3 left-3 px-2 py-1 rounded-md bg-black/60 text-white text-[10px] font-bold uppercase tracking-wider pointer-events-none">{beforeLabel}</span>
+      <span className="absolute top-3 right-3 px-2 py-1 rounded-md bg-black/60 text-white text-[10px] font-bold uppercase tracking-wider pointer-events-none">{afterLabel}</span>
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { BrandKit } from '../types';
+import { createBrandKitId, deleteBrandKit, listBrandKits, normalizeHex, prepareLogo, saveBrandKit, DEFAULT_BRAND_TOLERANCE } from '../services/brandKit';
+import { Stamp, X, Plus, Trash2, ImagePlus } from 'lucide-react';
+
+interface BrandKitManagerProps {
+  initialKitId?: string;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const emptyKit = (): BrandKit => ({
+  id: createBrandKitId(),
+  name: '',
+  colors: [],
+  fonts: '',
+  forbidden: [],
+  tolerance: DEFAULT_BRAND_TOLERANCE,
+  autoFix: true,
+  updatedAt: Date.now(),
+});
+
+const inputClassName = "w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm text-slate-900 dark:text-slate-100";
+const labelClassName = "text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ initialKitId, onClose, onChange }) => {
+  const [kits, setKits] = useState<BrandKit[]>(listBrandKits());
+  const [draft, setDraft] = useState<BrandKit>(() => kits.find(kit => kit.id === initialKitId) || emptyKit());
+  // Forbidden elements are edited as one-per-line text and split on save
+  const [forbiddenText, setForbiddenText] = useState(draft.forbidden.join('\n'));
+  const [colorInput, setColorInput] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const isExisting = kits.some(kit => kit.id === draft.id);
+
+  const selectKit = (kit: BrandKit) => {
+    setDraft(kit);
+    setForbiddenText(kit.forbidden.join('\n'));
+    setColorInput('');
+    setMessage(null);
+  };
+
+  const refresh = () => {
+    setKits(listBrandKits());
+    onChange();
+  };
+
+  const addColor = () => {
+    const hex = normalizeHex(colorInput);
+    if (!hex) {
+      setMessage(`"${colorInput}" is not a hex color. Use a value like #0b1f3a.`);
+      return;
+    }
+    if (!draft.colors.includes(hex)) setDraft({ ...draft, colors: [...draft.colors, hex] });
+    setColorInput('');
+    setMessage(null);
+  };
+
+  const updateColor = (index: number, value: string) => {
+    setDraft({ ...draft, colors: draft.colors.map((color, i) => i === index ? value.toLowerCase() : color) });
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const logo = await prepareLogo(event.target?.result as string);
+        setDraft(prev => ({ ...prev, logo }));
+      } catch (err) {
+        setMessage(err instanceof Error ? err.message : "Could not read the logo image.");
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    const kit: BrandKit = {
+      ...draft,
+      name: draft.name.trim(),
+      footerText: draft.footerText?.trim() || undefined,
+      forbidden: forbiddenText.split(/\r?\n/).map(line => line.trim()).filter(Boolean),
+    };
+    try {
+      saveBrandKit(kit);
+      setDraft(kit);
+      setMessage(`Saved "${kit.name}".`);
+      refresh();
+    } catch (err) {
+      console.error(err);
+      setMessage("Could not save the brand kit. Browser storage may be full; try a smaller logo.");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!isExisting || !window.confirm(`Delete the brand kit "${draft.name}"?`)) return;
+    deleteBrandKit(draft.id);
+    selectKit(emptyKit());
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-200 dark:border-white/10">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <Stamp className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+            Brand Kits
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-1 min-h-0">
+          <div className="md:w-64 border-b md:border-b-0 md:border-r border-slate-200 dark:border-white/10 p-4 flex flex-col gap-3 overflow-y-auto">
+            <button onClick={() => selectKit(emptyKit())} className="flex items-center gap-2 px-3 py-2 rounded-xl border border-dashed border-slate-300 dark:border-white/10 text-xs font-bold text-slate-500 hover:text-cyan-600 hover:border-cyan-500/50">
+              <Plus className="w-3.5 h-3.5" />
+              New Brand Kit
+            </button>
+            {kits.length === 0 && <p className="text-xs text-slate-500">No brand kits yet.</p>}
+            {kits.map(kit => (
+              <button
+                key={kit.id}
+                onClick={() => selectKit(kit)}
+                className={`flex flex-col gap-2 p-3 rounded-xl border text-left transition-colors ${kit.id === draft.id ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-900/20' : 'border-slate-200 dark:border-white/5 hover:border-cyan-500/50'}`}
+              >
+                <span className="text-xs font-bold text-slate-800 dark:text-slate-200 truncate">{kit.name}</span>
+                <div className="flex gap-1">
+                  {kit.colors.map(color => <span key={color} className="w-4 h-4 rounded-full border border-black/10" style={{ backgroundColor: color }} />)}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={handleSave} className="flex-1 p-6 space-y-4 overflow-y-auto">
+            <div>
+              <label className={labelClassName}>Name</label>
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Acme Corp" className={inputClassName} />
+            </div>
+
+            <div>
+              <label className={labelClassName}>Allowed Colors</label>
+              <div className="flex flex-wrap items-center gap-2 mt-1">
+                {draft.colors.map((color, index) => (
+                  <div key={index} className="flex items-center gap-1 pl-1 pr-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800">
+                    <input type="color" value={color} onChange={(e) => updateColor(index, e.target.value)} className="w-6 h-6 rounded cursor-pointer bg-transparent" />
+                    <span className="text-xs font-mono text-slate-700 dark:text-slate-200">{color}</span>
+                    <button type="button" onClick={() => setDraft({ ...draft, colors: draft.colors.filter((_, i) => i !== index) })} className="text-slate-400 hover:text-red-500" title="Remove color">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+                <input
+                  type="text"
+                  value={colorInput}
+                  onChange={(e) => setColorInput(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addColor(); } }}
+                  placeholder="#0b1f3a"
+                  className="w-28 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-900 dark:text-slate-100"
+                />
+                <button type="button" onClick={addColor} disabled={!colorInput.trim()} className="text-xs font-bold text-cyan-600 dark:text-cyan-400 hover:underline disabled:opacity-50">Add</button>
+              </div>
+              <p className="mt-1 text-[10px] text-slate-500">Whites, greys and blacks are always allowed.</p>
+            </div>
+
+            <div>
+              <label className={labelClassName}>Typography</label>
+              <input type="text" value={draft.fonts} onChange={(e) => setDraft({ ...draft, fonts: e.target.value })} placeholder="Geometric sans-serif like Futura for headings, humanist sans for labels" className={inputClassName} />
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex-1">
+                <label className={labelClassName}>Required Footer Text</label>
+                <input type="text" value={draft.footerText || ''} onChange={(e) => setDraft({ ...draft, footerText: e.target.value })} placeholder="© Acme Corp. Internal use only." className={inputClassName} />
+              </div>
+              <div>
+                <label className={labelClassName}>Logo</label>
+                <div className="flex items-center gap-2 mt-1">
+                  {draft.logo
+                    ? <img src={draft.logo} alt="Brand logo" className="h-9 max-w-[96px] object-contain rounded border border-slate-200 dark:border-white/10 bg-white" />
+                    : <div className="w-12 h-9 rounded bg-slate-100 dark:bg-slate-800 border border-dashed border-slate-300 dark:border-white/10" />}
+                  <button type="button" onClick={() => logoInputRef.current?.click()} className="flex items-center gap-1.5 text-xs font-bold text-cyan-600 dark:text-cyan-400 hover:underline">
+                    <ImagePlus className="w-3.5 h-3.5" />
+                    {draft.logo ? 'Replace' : 'Upload'}
+                  </button>
+                  {draft.logo && (
+                    <button type="button" onClick={() => setDraft({ ...draft, logo: undefined })} className="text-xs font-bold text-slate-500 hover:underline">Remove</button>
+                  )}
+                  <input type="file" ref={logoInputRef} onChange={handleLogoUpload} accept="image/png,image/jpeg,image/webp,image/svg+xml" className="hidden" />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClassName}>Forbidden Elements (one per line)</label>
+              <textarea
+                value={forbiddenText}
+                onChange={(e) => setForbiddenText(e.target.value)}
+                placeholder={"Competitor logos\nStock photos of people\nGradients"}
+                rows={3}
+                className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm text-slate-900 dark:text-slate-100"
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1">
+                <label className={labelClassName}>Off-Palette Tolerance: {Math.round(draft.tolerance * 100)}%</label>
+                <input
+                  type="range"
+                  min={0}
+                  max={0.5}
+                  step={0.05}
+                  value={draft.tolerance}
+                  onChange={(e) => setDraft({ ...draft, tolerance: parseFloat(e.target.value) })}
+                  className="w-full accent-cyan-600"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-700 dark:text-slate-200 cursor-pointer">
+                <input type="checkbox" checked={draft.autoFix} onChange={(e) => setDraft({ ...draft, autoFix: e.target.checked })} className="accent-cyan-600" />
+                Auto-fix off-brand colors
+              </label>
+            </div>
+
+            {message && <p className="text-xs text-slate-600 dark:text-slate-300">{message}</p>}
+
+            <div className="flex gap-3 pt-2">
+              {isExisting && (
+                <button type="button" onClick={handleDelete} className="px-4 py-2.5 rounded-xl text-red-600 dark:text-red-400 font-bold flex items-center gap-2">
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              )}
+              <button type="submit" disabled={!draft.name.trim()} className="ml-auto px-6 py-2.5 rounded-xl bg-cyan-600 text-white font-bold disabled:opacity-50">
+                {isExisting ? 'Save Changes' : 'Create Brand Kit'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitManager;
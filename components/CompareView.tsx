@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { findEditPath } from '../services/lineage';
+import { computeDiffHeatmap, DiffResult } from '../services/imageDiff';
+import BeforeAfterSlider from './BeforeAfterSlider';
+import { Columns2, SplitSquareHorizontal, Flame, ArrowLeftRight, Edit3, Crop, Loader2, X } from 'lucide-react';
+
+type CompareMode = 'side' | 'swipe' | 'diff';
+
+interface CompareViewProps {
+  images: GeneratedImage[];
+  leftId: string;
+  rightId: string;
+  onClose: () => void;
+}
+
+const MODES: { mode: CompareMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'side', label: 'Side by Side', icon: Columns2 },
+  { mode: 'swipe', label: 'Swipe', icon: SplitSquareHorizontal },
+  { mode: 'diff', label: 'Difference', icon: Flame },
+];
+
+const imageLabel = (image: GeneratedImage) =>
+  `${image.revision ? `Rev ${image.revision}` : 'Original'} · ${image.language || ''} · ${new Date(image.timestamp).toLocaleString()}`;
+
+const CompareView: React.FC<CompareViewProps> = ({ images, leftId: initialLeftId, rightId: initialRightId, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('side');
+  const [leftId, setLeftId] = useState(initialLeftId);
+  const [rightId, setRightId] = useState(initialRightId);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+
+  const left = images.find(img => img.id === leftId);
+  const right = images.find(img => img.id === rightId);
+  const path = left && right ? findEditPath(images, left.id, right.id) : null;
+
+  useEffect(() => {
+    if (mode !== 'diff' || !left || !right) return;
+    let cancelled = false;
+    setDiff(null);
+    setDiffError(null);
+    computeDiffHeatmap(left.data, right.data)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(err => { if (!cancelled) setDiffError(err instanceof Error ? err.message : 'Comparison failed.'); });
+    return () => { cancelled = true; };
+  }, [mode, leftId, rightId]);
+
+  const handleSwap = () => {
+    setLeftId(rightId);
+    setRightId(leftId);
+  };
+
+  const picker = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-900 dark:text-slate-100"
+    >
+      {images.map(img => (
+        <option key={img.id} value={img.id}>{img.prompt.slice(0, 40)} — {imageLabel(img)}</option>
+      ))}
+    </select>
+  );
+
+  const editList = (edits: GeneratedImage[]) => (
+    <ol className="space-y-1">
+      {edits.map(edit => (
+        <li key={edit.id} className="flex items-start gap-2 text-xs text-slate-700 dark:text-slate-300">
+          <span className="font-mono text-[10px] font-bold text-cyan-600 dark:text-cyan-400 mt-0.5">Rev {edit.revision}</span>
+          <span>"{edit.prompt}"</span>
+          {edit.editRegion && <span title="Limited to a selected region"><Crop className="w-3 h-3 mt-0.5 text-slate-400" /></span>}
+        </li>
+      ))}
+    </ol>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-100/95 dark:bg-slate-950/95 backdrop-blur-xl flex flex-col animate-in fade-in duration-300">
+      <div className="flex flex-wrap items-center gap-3 p-4 border-b border-slate-200 dark:border-white/10">
+        <div className="flex gap-1 bg-white/60 dark:bg-slate-900/60 p-1 rounded-lg border border-black/5 dark:border-white/10">
+          {MODES.map(({ mode: value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-bold transition-colors ${mode === value ? 'bg-cyan-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-black/5 dark:hover:bg-white/10'}`}
+            >
+              <Icon className="w-4 h-4" />
+              <span className="hidden sm:inline">{label}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-1 items-center gap-2 min-w-[280px]">
+          {picker(leftId, setLeftId)}
+          <button onClick={handleSwap} className="p-1.5 rounded-md text-slate-500 hover:bg-black/5 dark:hover:bg-white/10" title="Swap sides">
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+          {picker(rightId, setRightId)}
+        </div>
+        <button onClick={onClose} className="p-2 bg-slate-200 dark:bg-slate-800 text-slate-900 dark:text-white rounded-full hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors" title="Close comparison">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {path && (path.fromEdits.length > 0 || path.toEdits.length > 0 || !path.commonAncestor) && (
+        <div className="px-6 py-3 border-b border-slate-200 dark:border-white/10 bg-white/50 dark:bg-slate-900/40 flex flex-wrap gap-6">
+          {!path.commonAncestor && (
+            <p className="text-xs text-slate-500">These images are not revisions of each other, so no edit instructions connect them.</p>
+          )}
+          {path.fromEdits.length > 0 && (
+            <div>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-1"><Edit3 className="w-3 h-3" /> Left side edits since common version</p>
+              {editList(path.fromEdits)}
+            </div>
+          )}
+          {path.toEdits.length > 0 && (
+            <div>
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1 flex items-center gap-1"><Edit3 className="w-3 h-3" /> {path.fromEdits.length > 0 ? 'Right side edits since common version' : 'Edits from left to right'}</p>
+              {editList(path.toEdits)}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-4 sm:p-8 flex items-center justify-center">
+        {!left || !right ? (
+          <p className="text-sm text-slate-500">Select two images to compare.</p>
+        ) : mode === 'side' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full max-w-7xl">
+            {[left, right].map((img, i) => (
+              <figure key={i} className="flex flex-col gap-2">
+                <img src={img.data} alt={img.prompt} className="w-full h-auto max-h-[70vh] object-contain rounded-lg shadow-2xl bg-checkered" />
+                <figcaption className="text-[10px] font-mono text-slate-500 text-center truncate">{imageLabel(img)}</figcaption>
+              </figure>
+            ))}
+          </div>
+        ) : mode === 'swipe' ? (
+          <BeforeAfterSlider
+            before={left.data}
+            after={right.data}
+            beforeLabel={left.revision ? `Rev ${left.revision}` : 'Original'}
+            afterLabel={right.revision ? `Rev ${right.revision}` : 'Original'}
+            className="w-full max-w-5xl rounded-lg shadow-2xl"
+          />
+        ) : diffError ? (
+          <p className="text-sm text-red-500">{diffError}</p>
+        ) : !diff ? (
+          <Loader2 className="w-8 h-8 text-cyan-500 animate-spin" />
+        ) : (
+          <figure className="flex flex-col gap-2 w-full max-w-5xl">
+            <img src={diff.heatmap} alt="Pixel difference heatmap" className="w-full h-auto max-h-[70vh] object-contain rounded-lg shadow-2xl" />
+            <figcaption className="text-xs font-mono text-slate-500 text-center">
+              {(diff.changedRatio * 100).toFixed(1)}% of pixels changed · yellow = slight, red = strong
+            </figcaption>
+          </figure>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
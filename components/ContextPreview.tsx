@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ContextSource } from '../types';
+import { FileText, Table, Sparkles, X } from 'lucide-react';
+
+interface ContextPreviewProps {
+  source: ContextSource;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+const ContextPreview: React.FC<ContextPreviewProps> = ({ source, onClose }) => {
+  const tables = source.tables || [];
+  const [tab, setTab] = useState<'text' | 'tables'>('text');
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-200 dark:border-white/10">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+              <FileText className="w-5 h-5 text-cyan-600 dark:text-cyan-400 flex-shrink-0" />
+              <span className="truncate">{source.name}</span>
+            </h3>
+            <p className="text-[10px] font-mono text-slate-500 mt-1 uppercase tracking-wider">
+              {source.format || source.type}
+              {source.tokenEstimate !== undefined && ` · ~${source.tokenEstimate.toLocaleString()} tokens sent`}
+              {source.summarized && source.originalTokenEstimate !== undefined && ` (from ~${source.originalTokenEstimate.toLocaleString()})`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {source.summarized && (
+          <div className="mx-6 mt-4 px-3 py-2 rounded-lg bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/30 text-xs text-amber-800 dark:text-amber-200 flex items-center gap-2">
+            <Sparkles className="w-3.5 h-3.5 flex-shrink-0" />
+            This document exceeded the context budget and was summarized before being sent to the model.
+          </div>
+        )}
+
+        {tables.length > 0 && (
+          <div className="flex gap-2 px-6 pt-4">
+            <button onClick={() => setTab('text')} className={`px-3 py-1.5 rounded-lg text-xs font-bold ${tab === 'text' ? 'bg-cyan-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'}`}>
+              Extracted Text
+            </button>
+            <button onClick={() => setTab('tables')} className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 ${tab === 'tables' ? 'bg-cyan-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'}`}>
+              <Table className="w-3.5 h-3.5" />
+              Tables ({tables.length})
+            </button>
+          </div>
+        )}
+
+        <div className="p-6 overflow-y-auto">
+          {tab === 'text' ? (
+            <pre className="whitespace-pre-wrap break-words text-xs font-mono text-slate-700 dark:text-slate-300 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl p-4">
+              {source.content}
+            </pre>
+          ) : (
+            <div className="space-y-6">
+              {tables.map((table, index) => {
+                const [header, ...body] = table.rows;
+                return (
+                  <div key={index}>
+                    <p className="text-xs font-bold text-slate-700 dark:text-slate-200 mb-2">
+                      {table.name || `Table ${index + 1}`}
+                      <span className="ml-2 font-mono font-normal text-slate-500">{body.length} rows</span>
+                    </p>
+                    <div className="overflow-x-auto border border-slate-200 dark:border-white/10 rounded-xl">
+                      <table className="text-xs text-left text-slate-700 dark:text-slate-300">
+                        <thead className="bg-slate-100 dark:bg-slate-800">
+                          <tr>{header.map((cell, i) => <th key={i} className="px-3 py-2 font-bold whitespace-nowrap">{cell}</th>)}</tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-white/5">
+                          {body.slice(0, PREVIEW_ROWS).map((row, r) => (
+                            <tr key={r}>{row.map((cell, i) => <td key={i} className="px-3 py-1.5 whitespace-nowrap">{cell}</td>)}</tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    {body.length > PREVIEW_ROWS && (
+                      <p className="mt-1 text-[10px] font-mono text-slate-500">Showing first {PREVIEW_ROWS} rows</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContextPreview;
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ErrorKind } from '../services/errors';
+import { AlertCircle, Key, RotateCcw, Clock, ShieldAlert, Quote, WifiOff, FileWarning, ImageOff, X } from 'lucide-react';
+
+export interface ErrorState {
+  message: string;
+  kind?: ErrorKind;
+  retry?: () => void;
+}
+
+interface ErrorBannerProps {
+  error: ErrorState;
+  onSelectKey: () => void;
+  onDismiss: () => void;
+}
+
+const KIND_PRESENTATION: Record<ErrorKind, { icon: React.ElementType; title: string; hint: string }> = {
+  auth: { icon: Key, title: 'Access denied', hint: 'The selected API key does not have access to the required models. Please select a project with billing enabled.' },
+  quota: { icon: Clock, title: 'Rate limit reached', hint: 'The quota for this key is exhausted for now. Wait a minute, then try again.' },
+  safety: { icon: ShieldAlert, title: 'Blocked by safety filters', hint: 'Rephrase the topic or instruction and try again.' },
+  recitation: { icon: Quote, title: 'Stopped for quoting a source', hint: 'The answer repeated published text too closely. Try again, or ask for a summary rather than exact wording such as lyrics or passages.' },
+  no_image: { icon: ImageOff, title: 'No image returned', hint: 'The model answered without an image. Trying again usually works.' },
+  network: { icon: WifiOff, title: 'Service unreachable', hint: 'The image generation service is temporarily unavailable. Check your connection and try again.' },
+  parse: { icon: FileWarning, title: 'Unreadable response', hint: 'The model returned a plan that could not be read. Please try again.' },
+  cancelled: { icon: X, title: 'Cancelled', hint: 'The generation was stopped before it finished.' },
+  unknown: { icon: AlertCircle, title: 'Something went wrong', hint: 'Please try again.' },
+};
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onSelectKey, onDismiss }) => {
+  const presentation = error.kind ? KIND_PRESENTATION[error.kind] : null;
+  const Icon = presentation ? presentation.icon : AlertCircle;
+
+  return (
+    <div className="max-w-2xl mx-auto mt-8 p-6 bg-red-100 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 rounded-2xl flex items-start gap-4 text-red-800 dark:text-red-200 backdrop-blur-sm animate-in fade-in slide-in-from-bottom-4 shadow-sm">
+      <Icon className="w-6 h-6 flex-shrink-0 text-red-500 dark:text-red-400 mt-0.5" />
+      <div className="flex-1">
+          {presentation && <p className="font-bold">{presentation.title}</p>}
+          <p className="font-medium">{presentation ? presentation.hint : error.message}</p>
+          {presentation && error.message && (
+              <p className="mt-1 text-xs font-mono opacity-60 break-words">{error.message}</p>
+          )}
+          <div className="flex gap-4 mt-2">
+              {error.kind === 'auth' && (
+                  <button onClick={onSelectKey} className="text-xs font-bold text-red-700 dark:text-red-300 underline">Select a different API key</button>
+              )}
+              {error.retry && error.kind !== 'auth' && error.kind !== 'safety' && (
+                  <button onClick={error.retry} className="flex items-center gap-1 text-xs font-bold text-red-700 dark:text-red-300 underline">
+                      <RotateCcw className="w-3 h-3" />
+                      Try again
+                  </button>
+              )}
+          </div>
+      </div>
+      <button onClick={onDismiss} className="p-1 rounded-full hover:bg-red-200 dark:hover:bg-red-500/20 transition-colors" title="Dismiss">
+          <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ErrorBanner;
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportImages } from '../services/export';
+import { Download, Loader2 } from 'lucide-react';
+
+interface ExportMenuProps {
+  images: GeneratedImage[];
+  buttonClassName: string;
+  label?: string;
+  iconClassName?: string;
+  align?: 'left' | 'right';
+  direction?: 'down' | 'up'; // 'up' for buttons at the bottom of a clipped container
+  onError?: (err: unknown) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ images, buttonClassName, label, iconClassName = 'w-5 h-5', align = 'right', direction = 'down', onError }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setBusyFormat(format);
+    try {
+      await exportImages(images, format);
+    } catch (err) {
+      console.error(err);
+      onError?.(err);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={images.length === 0 || busyFormat !== null}
+        className={buttonClassName}
+        title={images.length > 1 ? `Export ${images.length} infographics` : "Export"}
+      >
+        {busyFormat ? <Loader2 className={`${iconClassName} animate-spin`} /> : <Download className={iconClassName} />}
+        {label && <span>{label}</span>}
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)}></div>
+          <div className={`absolute ${direction === 'up' ? 'bottom-full mb-2' : 'top-full mt-2'} ${align === 'right' ? 'right-0' : 'left-0'} w-64 bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-white/10 overflow-hidden z-40 animate-in ${direction === 'up' ? 'slide-in-from-bottom-2' : 'slide-in-from-top-2'} fade-in duration-200`}>
+            {EXPORT_FORMATS.map(({ format, label: formatLabel, description }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="w-full text-left px-4 py-2.5 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors border-b last:border-b-0 border-slate-100 dark:border-white/5"
+              >
+                <p className="text-xs font-bold text-slate-800 dark:text-slate-200">{formatLabel}</p>
+                <p className="text-[10px] text-slate-500">{description}</p>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
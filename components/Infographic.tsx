@@ -2,20 +2,63 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import { GeneratedImage } from '../types';
-import { Download, Sparkles, Edit3, Maximize2, X, ZoomIn, ZoomOut, RefreshCcw } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { EditRegion, GeneratedImage, Language, LocalizeMode } from '../types';
+import { LANGUAGES } from '../constants';
+import { Sparkles, Edit3, Maximize2, X, ZoomIn, ZoomOut, RefreshCcw, ShieldCheck, ShieldAlert, ShieldQuestionMark, Languages, Crop, Columns2, Undo2, Redo2, Stamp } from 'lucide-react';
+import ExportMenu from './ExportMenu';
+import BeforeAfterSlider from './BeforeAfterSlider';
+import { countUsageImages, estimateCost, formatCost, getPriceTable, totalTokens } from '../services/usage';
 
 interface InfographicProps {
   image: GeneratedImage;
-  onEdit: (prompt: string) => void;
+  onEdit: (prompt: string, region?: EditRegion) => void;
   isEditing: boolean;
+  variants?: GeneratedImage[];
+  onSelectVariant?: (id: string) => void;
+  onLocalize?: (languages: Language[], mode: LocalizeMode) => void;
+  onExportError?: (err: unknown) => void;
+  previousImage?: GeneratedImage; // Parent revision, for the before/after slider
+  autoCompare?: boolean; // Open the slider right away, e.g. just after an edit
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onBrandFix?: () => void; // Recolor an off-brand image toward its brand kit palette
 }
 
-const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing }) => {
+// Selections smaller than this (fraction of the image) are treated as accidental clicks
+const MIN_REGION_SIZE = 0.02;
+
+const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, variants = [], onSelectVariant, onLocalize, onExportError, previousImage, autoCompare = false, canUndo = false, canRedo = false, onUndo, onRedo, onBrandFix }) => {
   const [editPrompt, setEditPrompt] = useState('');
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [showLocalize, setShowLocalize] = useState(false);
+  const [localizeTargets, setLocalizeTargets] = useState<Language[]>([]);
+  const [localizeMode, setLocalizeMode] = useState<LocalizeMode>('edit');
+  const [showCompare, setShowCompare] = useState(autoCompare);
+  const [isSelectingRegion, setIsSelectingRegion] = useState(false);
+  const [region, setRegion] = useState<EditRegion | null>(null);
+  const [regionPrompt, setRegionPrompt] = useState('');
+  const regionStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    setShowCompare(autoCompare && !!previousImage);
+  }, [image.id, autoCompare, previousImage?.id]);
+
+  const existingLanguages = new Set(variants.map(v => v.language).filter(Boolean));
+
+  const toggleLocalizeTarget = (lang: Language) => {
+    setLocalizeTargets(prev => prev.includes(lang) ? prev.filter(l => l !== lang) : [...prev, lang]);
+  };
+
+  const handleLocalizeSubmit = () => {
+    if (!onLocalize || localizeTargets.length === 0) return;
+    onLocalize(localizeTargets, localizeMode);
+    setLocalizeTargets([]);
+    setShowLocalize(false);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,8 +74,50 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing }) =
   const handleCloseFullscreen = () => {
     setIsFullscreen(false);
     setZoomLevel(1);
+    setIsSelectingRegion(false);
+    setRegion(null);
   }
 
+  // Pointer position as a fraction of the displayed image; the bounding rect already includes the zoom transform
+  const pointerToFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handleRegionPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    regionStartRef.current = pointerToFraction(e);
+    setRegion(null);
+  };
+
+  const handleRegionPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = regionStartRef.current;
+    if (!start) return;
+    const point = pointerToFraction(e);
+    setRegion({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handleRegionPointerUp = () => {
+    regionStartRef.current = null;
+    setRegion(prev => prev && prev.width >= MIN_REGION_SIZE && prev.height >= MIN_REGION_SIZE ? prev : null);
+  };
+
+  const handleRegionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!region || !regionPrompt.trim()) return;
+    onEdit(regionPrompt, region);
+    setRegionPrompt('');
+    handleCloseFullscreen();
+  };
+
   return (
     <div className="flex flex-col items-center w-full max-w-6xl mx-auto animate-in fade-in zoom-in duration-700 mt-8">
       
@@ -44,12 +129,22 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing }) =
         <div className="absolute bottom-0 left-0 w-16 h-16 border-b-2 border-l-2 border-cyan-500/30 rounded-bl-2xl z-20 pointer-events-none"></div>
         <div className="absolute bottom-0 right-0 w-16 h-16 border-b-2 border-r-2 border-cyan-500/30 rounded-br-2xl z-20 pointer-events-none"></div>
 
-        <img 
-          src={image.data} 
-          alt={image.prompt} 
-          onClick={() => setIsFullscreen(true)}
-          className="w-full h-auto object-contain max-h-[80vh] bg-checkered relative z-10 cursor-zoom-in"
-        />
+        {showCompare && previousImage ? (
+          <BeforeAfterSlider
+            before={previousImage.data}
+            after={image.data}
+            beforeLabel={previousImage.revision ? `Rev ${previousImage.revision}` : 'Original'}
+            afterLabel={`Rev ${image.revision ?? 0}`}
+            className="relative z-10"
+          />
+        ) : (
+          <img 
+            src={image.data} 
+            alt={image.prompt} 
+            onClick={() => setIsFullscreen(true)}
+            className="w-full h-auto object-contain max-h-[80vh] bg-checkered relative z-10 cursor-zoom-in"
+          />
+        )}
         
         {/* Hover Overlay for Quick Actions */}
         <div className="absolute top-6 right-6 flex gap-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity z-30">
@@ -60,15 +155,61 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing }) =
           >
             <Maximize2 className="w-5 h-5" />
           </button>
-          <a 
-            href={image.data} 
-            download={`infographic-${image.id}.png`}
-            className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
-            title="Download Image"
-          >
-            <Download className="w-5 h-5" />
-          </a>
+          {previousImage && (
+            <button 
+              onClick={() => setShowCompare(!showCompare)}
+              className={`backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block ${showCompare ? 'bg-cyan-600' : 'bg-black/60'}`}
+              title={showCompare ? "Hide before/after" : "Compare with previous revision"}
+            >
+              <Columns2 className="w-5 h-5" />
+            </button>
+          )}
+          {onLocalize && image.research && (
+            <button
+              onClick={() => setShowLocalize(!showLocalize)}
+              className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
+              title="Localize into other languages"
+            >
+              <Languages className="w-5 h-5" />
+            </button>
+          )}
+          <ExportMenu
+            images={[image]}
+            onError={onExportError}
+            buttonClassName="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block disabled:opacity-60"
+          />
         </div>
+
+        {/* Localize Popover */}
+        {showLocalize && (
+          <div className="absolute top-20 right-6 z-40 w-72 bg-white dark:bg-slate-900 rounded-xl shadow-2xl border border-slate-200 dark:border-white/10 p-4 animate-in slide-in-from-top-2 fade-in duration-200">
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-3">Localize from the same research</p>
+            <div className="grid grid-cols-2 gap-1.5 mb-3">
+              {LANGUAGES.filter(lang => lang !== image.language).map(lang => (
+                <label key={lang} className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs cursor-pointer ${localizeTargets.includes(lang) ? 'bg-cyan-50 dark:bg-cyan-900/30 text-cyan-700 dark:text-cyan-300' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800'}`}>
+                  <input type="checkbox" checked={localizeTargets.includes(lang)} onChange={() => toggleLocalizeTarget(lang)} className="accent-cyan-600" />
+                  <span>{lang}</span>
+                  {existingLanguages.has(lang) && <span className="ml-auto text-[9px] font-mono opacity-60">exists</span>}
+                </label>
+              ))}
+            </div>
+            <select
+              value={localizeMode}
+              onChange={(e) => setLocalizeMode(e.target.value as LocalizeMode)}
+              className="w-full mb-3 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg px-2 py-1.5 text-xs text-slate-900 dark:text-slate-100"
+            >
+              <option value="edit">Edit labels (keep layout)</option>
+              <option value="regenerate">Regenerate image</option>
+            </select>
+            <button
+              onClick={handleLocalizeSubmit}
+              disabled={localizeTargets.length === 0 || isEditing}
+              className="w-full py-2 rounded-lg bg-cyan-600 text-white text-xs font-bold disabled:opacity-50"
+            >
+              Create {localizeTargets.length || ''} {localizeTargets.length === 1 ? 'Variant' : 'Variants'}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Edit Bar */}
@@ -77,6 +218,28 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing }) =
             <div className="pl-4 text-cyan-600 dark:text-cyan-400 hidden sm:block">
                 <Edit3 className="w-5 h-5" />
             </div>
+            {(onUndo || onRedo) && (
+                <div className="flex gap-1 sm:order-last">
+                    <button
+                        type="button"
+                        onClick={onUndo}
+                        disabled={!canUndo || isEditing}
+                        className="p-2 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Undo edit (Ctrl+Z)"
+                    >
+                        <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onRedo}
+                        disabled={!canRedo || isEditing}
+                        className="p-2 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Redo edit (Ctrl+Shift+Z)"
+                    >
+                        <Redo2 className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
             <form onSubmit={handleSubmit} className="flex-1 w-full flex flex-col sm:flex-row gap-2">
                 <input
                     type="text"
@@ -111,12 +274,89 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing }) =
         </div>
       </div>
       
+      {/* Language Variants */}
+      {variants.length > 1 && (
+        <div className="mt-6 flex flex-wrap justify-center gap-2 px-4">
+          {variants.map(variant => (
+            <button
+              key={variant.id}
+              onClick={() => onSelectVariant?.(variant.id)}
+              className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border transition-colors ${variant.id === image.id ? 'bg-cyan-600 text-white border-cyan-600' : 'text-slate-500 border-slate-200 dark:border-white/10 hover:border-cyan-500/50 hover:text-cyan-600 dark:hover:text-cyan-400'}`}
+            >
+              {variant.language || 'Original'}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="mt-8 text-center space-y-2 px-4">
         <p className="text-xs text-slate-500 dark:text-slate-500 font-mono max-w-xl mx-auto truncate opacity-60">
             PROMPT: {image.prompt}
         </p>
+        {image.research?.reviewedAt && (
+            <p className="text-[10px] text-slate-500 font-mono uppercase tracking-wider opacity-60">
+                Plan reviewed {new Date(image.research.reviewedAt).toLocaleString()}
+            </p>
+        )}
+        {image.usage && (
+            <p className="text-[10px] text-slate-500 font-mono uppercase tracking-wider opacity-60">
+                Usage: {totalTokens(image.usage).toLocaleString()} tokens
+                {Object.entries(countUsageImages(image.usage)).map(([resolution, count]) => ` · ${count}×${resolution} image${count === 1 ? '' : 's'}`).join('')}
+                {` · ≈ ${formatCost(estimateCost(image.usage, getPriceTable()))}`}
+            </p>
+        )}
       </div>
 
+      {/* Accuracy Verification Report */}
+      {image.verification && (
+        <div className={`mt-4 w-full max-w-3xl px-4 py-3 rounded-xl border text-xs ${image.verification.isAccurate ? 'bg-emerald-50 dark:bg-emerald-500/10 border-emerald-200 dark:border-emerald-500/30 text-emerald-800 dark:text-emerald-200' : image.verification.unverified ? 'bg-slate-50 dark:bg-slate-500/10 border-slate-200 dark:border-slate-500/30 text-slate-700 dark:text-slate-300' : 'bg-amber-50 dark:bg-amber-500/10 border-amber-200 dark:border-amber-500/30 text-amber-800 dark:text-amber-200'}`}>
+            <div className="flex items-center gap-2 font-bold uppercase tracking-wider">
+                {image.verification.isAccurate ? <ShieldCheck className="w-4 h-4" /> : image.verification.unverified ? <ShieldQuestionMark className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+                <span>{image.verification.isAccurate ? 'Verified' : image.verification.unverified ? 'Unverified' : 'Unresolved Issues'}</span>
+                <span className="ml-auto font-mono font-normal opacity-70">
+                    {image.verification.fixRounds} fix {image.verification.fixRounds === 1 ? 'round' : 'rounds'}
+                </span>
+            </div>
+            {image.verification.critique && <p className="mt-2 opacity-90">{image.verification.critique}</p>}
+            {image.verification.issues.length > 0 && (
+                <ul className="mt-2 space-y-1 list-disc list-inside opacity-90">
+                    {image.verification.issues.map((issue, index) => (
+                        <li key={index}><span className="font-mono uppercase opacity-70">{issue.type.replace('_', ' ')}:</span> {issue.description}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+      )}
+
+      {/* Brand Kit Compliance */}
+      {image.brandCheck && (
+        <div className={`mt-4 w-full max-w-3xl px-4 py-3 rounded-xl border text-xs ${image.brandCheck.isOnBrand ? 'bg-emerald-50 dark:bg-emerald-500/10 border-emerald-200 dark:border-emerald-500/30 text-emerald-800 dark:text-emerald-200' : 'bg-amber-50 dark:bg-amber-500/10 border-amber-200 dark:border-amber-500/30 text-amber-800 dark:text-amber-200'}`}>
+            <div className="flex items-center gap-2 font-bold uppercase tracking-wider">
+                <Stamp className="w-4 h-4" />
+                <span>{image.brandCheck.isOnBrand ? 'On Brand' : 'Off Brand'}</span>
+                <span className="font-normal normal-case tracking-normal opacity-80">{image.brandCheck.kitName}</span>
+                <span className="ml-auto font-mono font-normal opacity-70">
+                    {Math.round(image.brandCheck.offBrandShare * 100)}% off-palette
+                    {image.brandCheck.fixRounds > 0 && ` · ${image.brandCheck.fixRounds} recolor ${image.brandCheck.fixRounds === 1 ? 'pass' : 'passes'}`}
+                </span>
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-3">
+                <span className="opacity-70">Dominant colors</span>
+                {image.brandCheck.colors.map(color => (
+                    <span key={color.hex} className="flex items-center gap-1 font-mono" title={color.onBrand ? 'Within the brand palette' : `Off-brand; closest palette color ${color.nearest ?? 'none'}`}>
+                        <span className={`w-4 h-4 rounded-full border ${color.onBrand ? 'border-black/10' : 'border-red-500 ring-2 ring-red-500/30'}`} style={{ backgroundColor: color.hex }} />
+                        {Math.round(color.share * 100)}%
+                    </span>
+                ))}
+                {!image.brandCheck.isOnBrand && onBrandFix && (
+                    <button onClick={onBrandFix} disabled={isEditing} className="ml-auto font-bold underline disabled:opacity-50">
+                        Apply brand palette
+                    </button>
+                )}
+            </div>
+        </div>
+      )}
+
       {/* Fullscreen Modal */}
       {isFullscreen && (
         <div className="fixed inset-0 z-[100] bg-slate-100/95 dark:bg-slate-950/95 backdrop-blur-xl flex flex-col animate-in fade-in duration-300">
@@ -132,6 +372,15 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing }) =
                     <button onClick={handleZoomIn} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Zoom In">
                         <ZoomIn className="w-5 h-5" />
                     </button>
+                    <button
+                        onClick={() => { setIsSelectingRegion(!isSelectingRegion); setRegion(null); }}
+                        disabled={isEditing}
+                        className={`p-2 rounded-md transition-colors flex items-center gap-1.5 ${isSelectingRegion ? 'bg-cyan-600 text-white' : 'hover:bg-black/10 dark:hover:bg-white/10 text-slate-800 dark:text-slate-200'}`}
+                        title="Select a region to edit"
+                    >
+                        <Crop className="w-5 h-5" />
+                        <span className="text-xs font-bold hidden sm:inline">Edit Region</span>
+                    </button>
                 </div>
 
                 <button 
@@ -143,16 +392,64 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing }) =
             </div>
 
             <div className="flex-1 overflow-auto flex items-center justify-center p-4 sm:p-8">
-                <img 
-                    src={image.data} 
-                    alt={image.prompt}
+                <div
                     style={{ 
                         transform: `scale(${zoomLevel})`,
                         transition: 'transform 0.2s ease-out'
                     }}
-                    className="max-w-full max-h-full object-contain shadow-2xl rounded-lg origin-center"
-                />
+                    className="relative max-w-full max-h-full origin-center"
+                >
+                    <img 
+                        src={image.data} 
+                        alt={image.prompt}
+                        draggable={false}
+                        className="block max-w-full max-h-[85vh] object-contain shadow-2xl rounded-lg"
+                    />
+                    {isSelectingRegion && (
+                        <div
+                            onPointerDown={handleRegionPointerDown}
+                            onPointerMove={handleRegionPointerMove}
+                            onPointerUp={handleRegionPointerUp}
+                            className="absolute inset-0 cursor-crosshair touch-none select-none"
+                        >
+                            {region && (
+                                <div
+                                    className="absolute border-2 border-dashed border-cyan-400 bg-cyan-400/10 shadow-[0_0_0_9999px_rgba(2,6,23,0.45)]"
+                                    style={{
+                                        left: `${region.x * 100}%`,
+                                        top: `${region.y * 100}%`,
+                                        width: `${region.width * 100}%`,
+                                        height: `${region.height * 100}%`,
+                                    }}
+                                />
+                            )}
+                        </div>
+                    )}
+                </div>
             </div>
+
+            {isSelectingRegion && (
+                <form onSubmit={handleRegionSubmit} className="absolute bottom-6 left-1/2 -translate-x-1/2 w-full max-w-2xl px-4 z-50">
+                    <div className="bg-white/90 dark:bg-slate-800/90 backdrop-blur-xl p-2 rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex gap-2 items-center">
+                        <input
+                            type="text"
+                            value={regionPrompt}
+                            onChange={(e) => setRegionPrompt(e.target.value)}
+                            placeholder={region ? "Describe the change for the selected area..." : "Drag on the image to select an area"}
+                            disabled={!region || isEditing}
+                            className="flex-1 bg-transparent border-none focus:ring-0 outline-none text-slate-900 dark:text-white placeholder:text-slate-400 px-3 py-2 font-medium"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!region || !regionPrompt.trim() || isEditing}
+                            className="px-4 py-2 rounded-xl bg-cyan-600 text-white font-bold text-sm flex items-center gap-2 disabled:opacity-50"
+                        >
+                            <Sparkles className="w-4 h-4" />
+                            Edit Area
+                        </button>
+                    </div>
+                </form>
+            )}
         </div>
       )}
     </div>
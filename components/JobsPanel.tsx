@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { GenerationJob, JobKind, JobStatus } from '../types';
+import { isJobActive, MAX_JOB_CONCURRENCY } from '../services/jobQueue';
+import { ListChecks, X, RotateCcw, Square, Trash2, CheckCircle2, AlertCircle, Loader2, Clock, Ban, Pause, ClipboardCheck, Eye } from 'lucide-react';
+
+interface JobsPanelProps {
+  jobs: GenerationJob[];
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onView: (imageId: string) => void;
+  unseenResultIds: string[]; // Delivered while the user was on another image
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<JobKind, string> = {
+  generate: 'Generate',
+  edit: 'Edit',
+  localize: 'Translate',
+  seriesPanel: 'Series Panel',
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const statusIcon = (status: JobStatus) => {
+  switch (status) {
+    case 'running': return <Loader2 className="w-4 h-4 text-cyan-500 animate-spin" />;
+    case 'review': return <ClipboardCheck className="w-4 h-4 text-amber-500" />;
+    case 'done': return <CheckCircle2 className="w-4 h-4 text-emerald-500" />;
+    case 'failed': return <AlertCircle className="w-4 h-4 text-red-500" />;
+    case 'cancelled': return <Ban className="w-4 h-4 text-slate-400" />;
+    case 'interrupted': return <Pause className="w-4 h-4 text-amber-500" />;
+    default: return <Clock className="w-4 h-4 text-slate-400" />;
+  }
+};
+
+const JobsPanel: React.FC<JobsPanelProps> = ({ jobs, concurrency, onConcurrencyChange, onCancel, onRetry, onRemove, onClearFinished, onView, unseenResultIds, onClose }) => {
+  const [now, setNow] = useState(Date.now());
+  const hasRunning = jobs.some(job => job.status === 'running');
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  const activeCount = jobs.filter(isJobActive).length;
+  const interrupted = jobs.filter(job => job.status === 'interrupted');
+  const finishedCount = jobs.filter(job => !isJobActive(job) && job.status !== 'interrupted' && !job.result).length;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-200 dark:border-white/10">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+            Jobs
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex items-end justify-between gap-4">
+            <p className="text-xs text-slate-500">Jobs keep running while this panel is closed. Finished images are added to Session Archives in the order they were queued.</p>
+            <div className="flex-shrink-0">
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Parallel Jobs</label>
+              <select
+                value={concurrency}
+                onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+                className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm text-slate-900 dark:text-slate-100"
+              >
+                {Array.from({ length: MAX_JOB_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {interrupted.length > 0 && (
+            <div className="flex items-center justify-between gap-3 px-4 py-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-500/30 text-xs text-amber-800 dark:text-amber-200">
+              <span>{interrupted.length} job{interrupted.length === 1 ? ' was' : 's were'} interrupted by a page reload.</span>
+              <button onClick={() => interrupted.forEach(job => onRetry(job.id))} className="font-bold underline flex-shrink-0">Resume all</button>
+            </div>
+          )}
+
+          {jobs.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">No jobs yet. Generations, edits and translations show up here.</p>
+          ) : (
+            <div className="border border-slate-200 dark:border-white/10 rounded-xl divide-y divide-slate-200 dark:divide-white/5">
+              {[...jobs].reverse().map(job => {
+                const elapsed = job.startedAt ? (job.finishedAt || (job.status === 'running' ? now : job.startedAt)) - job.startedAt : 0;
+                return (
+                  <div key={job.id} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                    {statusIcon(job.status)}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-slate-800 dark:text-slate-200 truncate" title={job.label}>{job.label}</p>
+                      <p className="text-[10px] font-mono text-slate-500 truncate" title={job.error}>
+                        {KIND_LABELS[job.input.kind]} · {job.status === 'done' && job.result ? 'Waiting for earlier jobs' : job.error || job.message}
+                        {job.startedAt && ` · ${formatDuration(elapsed)}`}
+                      </p>
+                    </div>
+                    {job.status === 'done' && job.resultId && unseenResultIds.includes(job.resultId) && (
+                      <span className="px-1.5 rounded-full bg-emerald-500 text-white text-[10px] font-bold">New</span>
+                    )}
+                    {job.status === 'done' && job.resultId && (
+                      <button onClick={() => onView(job.resultId!)} className="p-1.5 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-800" title="Show image">
+                        <Eye className="w-4 h-4" />
+                      </button>
+                    )}
+                    {isJobActive(job) && (
+                      <button onClick={() => onCancel(job.id)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-800" title="Cancel job">
+                        <Square className="w-4 h-4" />
+                      </button>
+                    )}
+                    {(job.status === 'failed' || job.status === 'cancelled' || job.status === 'interrupted') && (
+                      <button onClick={() => onRetry(job.id)} className="p-1.5 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-800" title={job.status === 'interrupted' ? 'Resume job' : 'Retry job'}>
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                    {!isJobActive(job) && !job.result && (
+                      <button onClick={() => onRemove(job.id)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-800" title="Remove from list">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 pt-4 border-t border-slate-200 dark:border-white/10">
+          <span className="text-xs font-mono text-slate-500">
+            {activeCount > 0 ? `${activeCount} active` : 'Idle'}
+          </span>
+          <button onClick={onClearFinished} disabled={finishedCount === 0} className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+            <Trash2 className="w-3.5 h-3.5" />
+            Clear Finished
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JobsPanel;
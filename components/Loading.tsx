@@ -3,16 +3,32 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useEffect, useState } from 'react';
-import { Loader2, BrainCircuit, BookOpen, Atom, Lightbulb, ScrollText, Database, Dna, Microscope, Globe, Compass } from 'lucide-react';
+import { Loader2, BrainCircuit, BookOpen, Atom, Lightbulb, ScrollText, Database, Dna, Microscope, Globe, Compass, ShieldAlert, Link as LinkIcon, Timer, Hash, Square } from 'lucide-react';
+import { ResearchFact, SearchResultItem } from '../types';
 
 interface LoadingProps {
   status: string;
   step: number;
-  facts?: string[];
+  facts?: ResearchFact[];
+  sources?: SearchResultItem[];
+  outputTokens?: number;
+  live?: boolean; // Facts are still streaming in and have no citations yet
+  onCancel?: () => void;
 }
 
-const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
+const formatElapsed = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const Loading: React.FC<LoadingProps> = ({ status, step, facts = [], sources = [], outputTokens = 0, live = false, onCancel }) => {
   const [currentFactIndex, setCurrentFactIndex] = useState(0);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+
+  useEffect(() => {
+    const startedAt = Date.now();
+    const interval = setInterval(() => setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const currentFact = facts.length > 0 ? facts[currentFactIndex % facts.length] : undefined;
   
   useEffect(() => {
     if (facts.length > 0) {
@@ -117,8 +133,23 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
             {facts.length > 0 ? (
             <div key={currentFactIndex} className="animate-in slide-in-from-bottom-2 fade-in duration-500">
                 <p className="text-base md:text-xl text-slate-800 dark:text-slate-200 font-serif-display leading-relaxed italic">
-                "{facts[currentFactIndex]}"
+                "{currentFact?.text}"
                 </p>
+                <div className="mt-3 flex flex-wrap justify-center gap-1.5">
+                    {live ? null : currentFact?.groundingIndices.length ? (
+                        currentFact.groundingIndices.map(index => sources[index] && (
+                            <span key={index} className="inline-flex items-center gap-1 text-[10px] font-mono text-cyan-700 dark:text-cyan-300 bg-cyan-50 dark:bg-cyan-900/30 border border-cyan-200 dark:border-cyan-700/50 px-1.5 py-0.5 rounded" title={sources[index].url}>
+                                <LinkIcon className="w-2.5 h-2.5" />
+                                [{index + 1}] {sources[index].title}
+                            </span>
+                        ))
+                    ) : (
+                        <span className="inline-flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700/50 px-1.5 py-0.5 rounded">
+                            <ShieldAlert className="w-2.5 h-2.5" />
+                            Unverified
+                        </span>
+                    )}
+                </div>
             </div>
             ) : (
             <div className="flex items-center gap-2 text-slate-500 dark:text-slate-500 italic font-light text-sm md:text-base">
@@ -137,6 +168,20 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
                 <div className="absolute inset-0 bg-white/50 animate-[shimmer_1s_infinite]"></div>
             </div>
         </div>
+
+        {/* Live Counters */}
+        <div className="w-full mt-4 flex items-center justify-center gap-4 text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+            <span className="flex items-center gap-1" title="Elapsed time"><Timer className="w-3 h-3" />{formatElapsed(elapsedSeconds)}</span>
+            {outputTokens > 0 && <span className="flex items-center gap-1" title="Research tokens received"><Hash className="w-3 h-3" />{outputTokens.toLocaleString()} tokens</span>}
+            {facts.length > 0 && <span className="flex items-center gap-1"><Lightbulb className="w-3 h-3" />{facts.length} facts</span>}
+            {sources.length > 0 && <span className="flex items-center gap-1"><LinkIcon className="w-3 h-3" />{sources.length} sources</span>}
+            {onCancel && (
+                <button onClick={onCancel} className="ml-2 flex items-center gap-1 px-2 py-1 rounded-md font-bold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors" title="Cancel generation">
+                    <Square className="w-3 h-3" />
+                    Cancel
+                </button>
+            )}
+        </div>
       </div>
 
       <style>{`
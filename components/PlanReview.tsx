@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ResearchFact, ResearchResult } from '../types';
+import { approvePlan, removeSources } from '../services/researchPlan';
+import { ClipboardCheck, ArrowUp, ArrowDown, Trash2, Plus, Rocket, X, ExternalLink } from 'lucide-react';
+
+interface PlanReviewProps {
+  plan: ResearchResult;
+  onApprove: (plan: ResearchResult) => void;
+  onCancel: () => void;
+}
+
+interface EditableFact {
+  key: string;
+  fact: ResearchFact;
+}
+
+const createKey = () => Math.random().toString(36).substr(2, 9);
+
+const PlanReview: React.FC<PlanReviewProps> = ({ plan, onApprove, onCancel }) => {
+  const [title, setTitle] = useState(plan.title);
+  const [facts, setFacts] = useState<EditableFact[]>(plan.facts.map(fact => ({ key: createKey(), fact })));
+  const [imagePrompt, setImagePrompt] = useState(plan.imagePrompt);
+  const [droppedSources, setDroppedSources] = useState<Set<number>>(new Set());
+
+  const updateFact = (key: string, text: string) => {
+    setFacts(prev => prev.map(item => item.key === key ? { ...item, fact: { ...item.fact, text } } : item));
+  };
+
+  const moveFact = (index: number, offset: number) => {
+    setFacts(prev => {
+      const next = [...prev];
+      const [item] = next.splice(index, 1);
+      next.splice(index + offset, 0, item);
+      return next;
+    });
+  };
+
+  // Facts written by the user cite nothing, so they show up as unverified like any ungrounded fact
+  const addFact = () => {
+    setFacts(prev => [...prev, { key: createKey(), fact: { text: '', sourceIndices: [], groundingIndices: [] } }]);
+  };
+
+  const toggleSource = (index: number) => {
+    setDroppedSources(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  const keptFactCount = facts.filter(item => item.fact.text.trim()).length;
+
+  const handleApprove = () => {
+    const edited: ResearchResult = { ...plan, title, imagePrompt, facts: facts.map(item => item.fact) };
+    onApprove(approvePlan(removeSources(edited, droppedSources)));
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mt-8 rounded-3xl bg-white/80 dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 shadow-2xl backdrop-blur-md animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-start justify-between gap-4 p-6 pb-4 border-b border-slate-200 dark:border-white/10">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+            Review Research Plan
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">Correct, reorder or remove facts, adjust the composition and drop sources you don't trust. The image is generated from the approved plan.</p>
+        </div>
+        <button onClick={onCancel} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Discard plan">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div>
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm font-bold text-slate-900 dark:text-slate-100"
+          />
+        </div>
+
+        <div>
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Facts ({keptFactCount})</label>
+          <div className="mt-1 space-y-2">
+            {facts.map((item, index) => {
+              // Same rule as the other fact views: only grounding-backed sources count as citations
+              const cited = item.fact.groundingIndices.filter(i => !droppedSources.has(i));
+              return (
+                <div key={item.key} className="flex items-start gap-2">
+                  <span className="mt-2.5 w-5 text-right text-xs font-mono text-slate-400 flex-shrink-0">{index + 1}.</span>
+                  <div className="flex-1">
+                    <textarea
+                      value={item.fact.text}
+                      onChange={(e) => updateFact(item.key, e.target.value)}
+                      placeholder="New fact..."
+                      rows={2}
+                      className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-slate-100"
+                    />
+                    <p className="text-[10px] font-mono text-slate-500">
+                      {cited.length > 0 ? cited.map(i => `[${i + 1}]`).join('') : 'unverified'}
+                    </p>
+                  </div>
+                  <div className="flex flex-col gap-0.5 flex-shrink-0">
+                    <button type="button" onClick={() => moveFact(index, -1)} disabled={index === 0} className="p-1 rounded text-slate-400 hover:text-cyan-600 disabled:opacity-30" title="Move up">
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button type="button" onClick={() => moveFact(index, 1)} disabled={index === facts.length - 1} className="p-1 rounded text-slate-400 hover:text-cyan-600 disabled:opacity-30" title="Move down">
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <button type="button" onClick={() => setFacts(prev => prev.filter(f => f.key !== item.key))} className="mt-1.5 p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-800 flex-shrink-0" title="Delete fact">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <button type="button" onClick={addFact} className="mt-2 ml-7 flex items-center gap-1.5 text-xs font-bold text-cyan-600 dark:text-cyan-400 hover:underline">
+            <Plus className="w-3.5 h-3.5" />
+            Add fact
+          </button>
+        </div>
+
+        <div>
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Composition Prompt</label>
+          <textarea
+            value={imagePrompt}
+            onChange={(e) => setImagePrompt(e.target.value)}
+            rows={6}
+            className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm text-slate-900 dark:text-slate-100"
+          />
+        </div>
+
+        {plan.searchResults.length > 0 && (
+          <div>
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Sources ({plan.searchResults.length - droppedSources.size} of {plan.searchResults.length} kept)</label>
+            <div className="mt-1 border border-slate-200 dark:border-white/10 rounded-xl divide-y divide-slate-200 dark:divide-white/5">
+              {plan.searchResults.map((source, index) => (
+                <label key={source.url || index} className="flex items-center gap-3 px-4 py-2 text-xs cursor-pointer">
+                  <input type="checkbox" checked={!droppedSources.has(index)} onChange={() => toggleSource(index)} className="accent-cyan-600" />
+                  <span className="font-mono text-slate-400">[{index + 1}]</span>
+                  <span className={`flex-1 truncate font-medium ${droppedSources.has(index) ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-200'}`}>{source.title}</span>
+                  {source.url && (
+                    <a href={source.url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} className="text-slate-400 hover:text-cyan-600" title={source.url}>
+                      <ExternalLink className="w-3.5 h-3.5" />
+                    </a>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-3 p-6 pt-4 border-t border-slate-200 dark:border-white/10">
+        <button type="button" onClick={onCancel} className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold">
+          Discard
+        </button>
+        <button type="button" onClick={handleApprove} disabled={keptFactCount === 0 || !imagePrompt.trim()} className="px-6 py-2.5 rounded-xl bg-gradient-to-r from-cyan-600 to-blue-600 text-white text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+          <Rocket className="w-4 h-4" />
+          Approve & Generate
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlanReview;
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { CustomPreset, PresetKind } from '../types';
+import { createPresetId, createThumbnail, deletePreset, exportPresetsFile, importPresetsFile, listPresets, savePreset } from '../services/presets';
+import { downloadBlob } from '../services/export/common';
+import { SlidersHorizontal, X, Plus, Upload, Download, Trash2, ImagePlus, GraduationCap, Palette } from 'lucide-react';
+
+interface PresetManagerProps {
+  initialKind: PresetKind;
+  sampleImage?: string; // Active infographic, offered as a thumbnail
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const PROMPT_PLACEHOLDERS: Record<PresetKind, string> = {
+  audience: "e.g. Board of Directors. Executive summary tone, one headline number per panel, no jargon, emphasize cost and risk.",
+  style: "e.g. Acme house style. Navy #0B1F3A and teal #14B8A6 palette, Inter-like sans-serif type, logo in the bottom-right corner, generous white space.",
+};
+
+const emptyDraft = (kind: PresetKind): CustomPreset => ({ id: createPresetId(), kind, name: '', prompt: '', updatedAt: Date.now() });
+
+const PresetManager: React.FC<PresetManagerProps> = ({ initialKind, sampleImage, onClose, onChange }) => {
+  const [kind, setKind] = useState<PresetKind>(initialKind);
+  const [presets, setPresets] = useState<CustomPreset[]>(listPresets());
+  const [draft, setDraft] = useState<CustomPreset>(emptyDraft(initialKind));
+  const [message, setMessage] = useState<string | null>(null);
+  const thumbnailInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = presets.filter(preset => preset.kind === kind);
+  const isExisting = presets.some(preset => preset.id === draft.id);
+
+  const refresh = () => {
+    setPresets(listPresets());
+    onChange();
+  };
+
+  const handleKindChange = (next: PresetKind) => {
+    setKind(next);
+    setDraft(emptyDraft(next));
+    setMessage(null);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || !draft.prompt.trim()) return;
+    try {
+      savePreset({ ...draft, name: draft.name.trim(), prompt: draft.prompt.trim() });
+      setMessage(`Saved "${draft.name.trim()}".`);
+      refresh();
+    } catch (err) {
+      console.error(err);
+      setMessage("Could not save the preset. Browser storage may be full; try a smaller thumbnail.");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!isExisting || !window.confirm(`Delete the preset "${draft.name}"?`)) return;
+    deletePreset(draft.id);
+    setDraft(emptyDraft(kind));
+    refresh();
+  };
+
+  const handleThumbnail = async (source: string) => {
+    try {
+      setDraft({ ...draft, thumbnail: await createThumbnail(source) });
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Could not read the thumbnail image.");
+    }
+  };
+
+  const handleThumbnailUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => handleThumbnail(event.target?.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPresetsFile(await file.text(), (replaced) => window.confirm(
+        `This file has different versions of ${replaced.length === 1 ? `"${replaced[0].name}"` : `${replaced.length} of your presets`}. Replace your local ${replaced.length === 1 ? 'copy' : 'copies'}?\n\nCancel keeps your versions and imports the rest.`
+      ));
+      setMessage(`Imported ${imported.length} ${imported.length === 1 ? 'preset' : 'presets'}.`);
+      refresh();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Could not import the preset file.");
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(exportPresetsFile(presets), `infogenius-presets-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-200 dark:border-white/10">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+            Custom Presets
+          </h3>
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={() => importInputRef.current?.click()} className="px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold flex items-center gap-2">
+              <Upload className="w-3.5 h-3.5" />
+              Import
+            </button>
+            <input type="file" ref={importInputRef} onChange={handleImport} accept=".json,application/json" className="hidden" />
+            <button type="button" onClick={handleExport} disabled={presets.length === 0} className="px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+              <Download className="w-3.5 h-3.5" />
+              Export All
+            </button>
+            <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-1 min-h-0">
+          <div className="md:w-72 border-b md:border-b-0 md:border-r border-slate-200 dark:border-white/10 p-4 flex flex-col gap-3 overflow-y-auto">
+            <div className="flex gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+              {(['audience', 'style'] as PresetKind[]).map(value => (
+                <button
+                  key={value}
+                  onClick={() => handleKindChange(value)}
+                  className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-xs font-bold ${kind === value ? 'bg-white dark:bg-slate-900 text-cyan-600 dark:text-cyan-400 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {value === 'audience' ? <GraduationCap className="w-3.5 h-3.5" /> : <Palette className="w-3.5 h-3.5" />}
+                  {value === 'audience' ? 'Audiences' : 'Styles'}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => setDraft(emptyDraft(kind))} className="flex items-center gap-2 px-3 py-2 rounded-xl border border-dashed border-slate-300 dark:border-white/10 text-xs font-bold text-slate-500 hover:text-cyan-600 hover:border-cyan-500/50">
+              <Plus className="w-3.5 h-3.5" />
+              New {kind === 'audience' ? 'Audience' : 'Style'}
+            </button>
+            {visible.length === 0 && <p className="text-xs text-slate-500">No custom {kind === 'audience' ? 'audiences' : 'styles'} yet.</p>}
+            {visible.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => { setDraft(preset); setMessage(null); }}
+                className={`flex items-center gap-3 p-2 rounded-xl border text-left transition-colors ${preset.id === draft.id ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-900/20' : 'border-slate-200 dark:border-white/5 hover:border-cyan-500/50'}`}
+              >
+                {preset.thumbnail
+                  ? <img src={preset.thumbnail} alt="" className="w-12 h-9 rounded-md object-cover flex-shrink-0" />
+                  : <div className="w-12 h-9 rounded-md bg-slate-100 dark:bg-slate-800 flex-shrink-0" />}
+                <span className="text-xs font-bold text-slate-800 dark:text-slate-200 truncate">{preset.name}</span>
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={handleSave} className="flex-1 p-6 space-y-4 overflow-y-auto">
+            <div>
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={kind === 'audience' ? 'Board of Directors' : 'Acme House Style'}
+                className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm text-slate-900 dark:text-slate-100"
+              />
+            </div>
+            <div>
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{kind === 'audience' ? 'Audience Instructions' : 'Aesthetic Instructions'}</label>
+              <textarea
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                placeholder={PROMPT_PLACEHOLDERS[kind]}
+                rows={6}
+                className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm text-slate-900 dark:text-slate-100"
+              />
+              <p className="mt-1 text-[10px] text-slate-500">Sent to the model in place of the built-in {kind === 'audience' ? 'audience' : 'aesthetic'} description.</p>
+            </div>
+            <div>
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Sample Thumbnail</label>
+              <div className="flex items-center gap-3 mt-1">
+                {draft.thumbnail
+                  ? <img src={draft.thumbnail} alt="Preset thumbnail" className="w-24 h-16 rounded-lg object-cover border border-slate-200 dark:border-white/10" />
+                  : <div className="w-24 h-16 rounded-lg bg-slate-100 dark:bg-slate-800 border border-dashed border-slate-300 dark:border-white/10" />}
+                <div className="flex flex-col gap-1.5">
+                  <button type="button" onClick={() => thumbnailInputRef.current?.click()} className="flex items-center gap-1.5 text-xs font-bold text-cyan-600 dark:text-cyan-400 hover:underline">
+                    <ImagePlus className="w-3.5 h-3.5" />
+                    Upload image
+                  </button>
+                  {sampleImage && (
+                    <button type="button" onClick={() => handleThumbnail(sampleImage)} className="text-left text-xs font-bold text-cyan-600 dark:text-cyan-400 hover:underline">
+                      Use current infographic
+                    </button>
+                  )}
+                  {draft.thumbnail && (
+                    <button type="button" onClick={() => setDraft({ ...draft, thumbnail: undefined })} className="text-left text-xs font-bold text-slate-500 hover:underline">
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <input type="file" ref={thumbnailInputRef} onChange={handleThumbnailUpload} accept="image/*" className="hidden" />
+              </div>
+            </div>
+
+            {message && <p className="text-xs text-slate-600 dark:text-slate-300">{message}</p>}
+
+            <div className="flex gap-3 pt-2">
+              {isExisting && (
+                <button type="button" onClick={handleDelete} className="px-4 py-2.5 rounded-xl text-red-600 dark:text-red-400 font-bold flex items-center gap-2">
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              )}
+              <button type="submit" disabled={!draft.name.trim() || !draft.prompt.trim()} className="ml-auto px-6 py-2.5 rounded-xl bg-cyan-600 text-white font-bold disabled:opacity-50">
+                {isExisting ? 'Save Changes' : 'Create Preset'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
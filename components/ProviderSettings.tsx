@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ProviderConfig, getProviderConfig, saveProviderConfig, resetProviderConfig } from '../services/config';
+import { ProviderId } from '../services/providers';
+import { Cpu, X } from 'lucide-react';
+
+interface ProviderSettingsProps {
+  onClose: () => void;
+  onSaved: (config: ProviderConfig) => void;
+}
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ onClose, onSaved }) => {
+  const [config, setConfig] = useState<ProviderConfig>(getProviderConfig());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveProviderConfig(config);
+    onSaved(getProviderConfig());
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetProviderConfig();
+    const defaults = getProviderConfig();
+    setConfig(defaults);
+    onSaved(defaults);
+  };
+
+  const modelField = (key: 'textModel' | 'imageModel' | 'editModel', label: string) => (
+    <div>
+      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{label}</label>
+      <input
+        type="text"
+        value={config[key]}
+        onChange={(e) => setConfig({ ...config, [key]: e.target.value })}
+        disabled={config.provider === 'mock'}
+        className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm font-mono text-slate-900 dark:text-slate-100 disabled:opacity-50"
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-md p-6 relative overflow-hidden z-10">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <Cpu className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+            Model Provider
+          </h3>
+          <button type="button" onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="space-y-4">
+          <div>
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Provider</label>
+            <select
+              value={config.provider}
+              onChange={(e) => setConfig({ ...config, provider: e.target.value as ProviderId })}
+              className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm text-slate-900 dark:text-slate-100"
+            >
+              <option value="gemini">Gemini (live, billed)</option>
+              <option value="mock">Mock (offline placeholders)</option>
+            </select>
+          </div>
+          {modelField('textModel', 'Text / Research Model')}
+          {modelField('imageModel', 'Image Model')}
+          {modelField('editModel', 'Edit Model')}
+          <div>
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">URL Fetch Proxy</label>
+            <input
+              type="text"
+              value={config.urlFetcher}
+              onChange={(e) => setConfig({ ...config, urlFetcher: e.target.value })}
+              placeholder="https://proxy.example.com/fetch?url={url}"
+              className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm font-mono text-slate-900 dark:text-slate-100"
+            />
+            <p className="mt-1 text-[10px] text-slate-500">Used for link context sources. Leave empty to fetch pages directly.</p>
+          </div>
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={handleReset} className="flex-1 px-4 py-2.5 rounded-xl text-slate-600 dark:text-slate-300 font-bold">Reset</button>
+            <button type="submit" className="flex-1 px-4 py-2.5 rounded-xl bg-cyan-600 text-white font-bold">Save</button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -3,18 +3,58 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { SearchResultItem } from '../types';
-import { ExternalLink, BookOpen, Link as LinkIcon } from 'lucide-react';
+import { SearchResultItem, ResearchFact, UrlSnapshot } from '../types';
+import { ExternalLink, BookOpen, Lightbulb, ShieldAlert, Archive, Link as LinkIcon } from 'lucide-react';
 
 interface SearchResultsProps {
   results: SearchResultItem[];
+  facts?: ResearchFact[];
+  snapshots?: UrlSnapshot[];
+  live?: boolean; // Research is still streaming; citations are not resolved yet
 }
 
-const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
-  if (!results || results.length === 0) return null;
+const SearchResults: React.FC<SearchResultsProps> = ({ results, facts = [], snapshots = [], live = false }) => {
+  if ((!results || results.length === 0) && facts.length === 0 && snapshots.length === 0) return null;
 
   return (
     <div className="w-full max-w-6xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-8 duration-1000">
+      {facts.length > 0 && (
+        <>
+          <div className="flex items-center gap-3 mb-6 border-t border-slate-200 dark:border-white/10 pt-8 transition-colors">
+            <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-amber-600 dark:text-amber-400 shadow-sm">
+                <Lightbulb className="w-5 h-5" />
+            </div>
+            <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">{live ? 'Facts So Far' : 'Researched Facts'}</h3>
+          </div>
+          <ol className="mb-10 space-y-2 list-decimal list-inside text-sm text-slate-700 dark:text-slate-300">
+            {facts.map((fact, index) => (
+              <li key={index} className="px-4 py-3 bg-white dark:bg-slate-900/60 border border-slate-200 dark:border-white/5 rounded-xl shadow-sm">
+                {fact.text}
+                {fact.groundingIndices.length > 0 ? (
+                  fact.groundingIndices.map(sourceIndex => (
+                    <a
+                      key={sourceIndex}
+                      href={`#source-${sourceIndex + 1}`}
+                      title={results[sourceIndex]?.title}
+                      className="ml-1 align-super text-[10px] font-mono font-bold text-cyan-600 dark:text-cyan-400 hover:underline"
+                    >
+                      [{sourceIndex + 1}]
+                    </a>
+                  ))
+                ) : !live && (
+                  <span className="ml-2 inline-flex items-center gap-1 align-middle text-[9px] font-mono uppercase tracking-wider text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700/50 px-1.5 py-0.5 rounded" title="No grounding source supports this fact">
+                    <ShieldAlert className="w-2.5 h-2.5" />
+                    Unverified
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {results && results.length > 0 && (
+      <>
       <div className="flex items-center gap-3 mb-6 border-t border-slate-200 dark:border-white/10 pt-8 transition-colors">
         <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-cyan-600 dark:text-cyan-400 shadow-sm">
             <BookOpen className="w-5 h-5" />
@@ -26,6 +66,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
         {results.map((result, index) => (
           <a 
             key={index} 
+            id={`source-${index + 1}`}
             href={result.url} 
             target="_blank" 
             rel="noopener noreferrer"
@@ -35,6 +76,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
             
             <div className="flex items-start justify-between gap-3 mb-3">
                <h4 className="font-display font-bold text-slate-800 dark:text-slate-200 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 transition-colors line-clamp-2 leading-tight text-sm">
+                 <span className="font-mono text-cyan-600 dark:text-cyan-400 mr-1.5">[{index + 1}]</span>
                  {result.title}
                </h4>
                <ExternalLink className="w-3.5 h-3.5 text-slate-400 dark:text-slate-600 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 flex-shrink-0 transition-colors mt-0.5" />
@@ -55,6 +97,36 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
           </a>
         ))}
       </div>
+      </>
+      )}
+
+      {snapshots.length > 0 && (
+        <>
+          <div className="flex items-center gap-3 mt-10 mb-6 border-t border-slate-200 dark:border-white/10 pt-8 transition-colors">
+            <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-purple-600 dark:text-purple-400 shadow-sm">
+                <Archive className="w-5 h-5" />
+            </div>
+            <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">Fetched Pages</h3>
+          </div>
+          <div className="space-y-3">
+            {snapshots.map((snapshot, index) => (
+              <details key={index} className="group px-5 py-4 bg-white dark:bg-slate-900/60 border border-slate-200 dark:border-white/5 rounded-xl shadow-sm">
+                <summary className="cursor-pointer list-none flex items-center justify-between gap-3">
+                  <span className="font-bold text-sm text-slate-800 dark:text-slate-200 truncate">{snapshot.title}</span>
+                  <span className="text-[10px] font-mono text-slate-500 flex-shrink-0">
+                    {[snapshot.siteName, snapshot.byline, `fetched ${new Date(snapshot.fetchedAt).toLocaleString()}`].filter(Boolean).join(' · ')}
+                  </span>
+                </summary>
+                <a href={snapshot.finalUrl} target="_blank" rel="noopener noreferrer" className="mt-2 inline-flex items-center gap-1 text-[10px] font-mono text-cyan-600 dark:text-cyan-400 hover:underline break-all">
+                  <LinkIcon className="w-3 h-3 flex-shrink-0" />
+                  {snapshot.finalUrl}
+                </a>
+                <pre className="mt-3 max-h-64 overflow-y-auto whitespace-pre-wrap break-words text-xs font-mono text-slate-600 dark:text-slate-400">{snapshot.text}</pre>
+              </details>
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 };
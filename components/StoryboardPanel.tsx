@@ -0,0 +1,369 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedImage, GenerationJob, GenerationSettings, InfographicSeries, JobInput, SeriesPanel } from '../types';
+import { runSeriesPlanPipeline } from '../services/pipeline';
+import { deleteSeries, listSeries, loadImagesById, saveSeries } from '../services/historyStore';
+import { DEFAULT_SERIES_PANELS, findStyleAnchor, MAX_SERIES_PANELS, MIN_SERIES_PANELS, moveSeriesPanel, orderedSeriesImages } from '../services/series';
+import { EnqueueOptions, isJobActive } from '../services/jobQueue';
+import { estimateCost, formatCost, getBudgetWarning, getPriceTable, totalTokens } from '../services/usage';
+import { classifyError } from '../services/errors';
+import ExportMenu from './ExportMenu';
+import { Clapperboard, X, Play, Square, RotateCcw, Eye, Pencil, ChevronLeft, ChevronRight, ArrowLeft, Trash2, Loader2, AlertCircle, ImageOff } from 'lucide-react';
+
+interface StoryboardPanelProps {
+  defaults: GenerationSettings;
+  initialTopic: string;
+  jobs: GenerationJob[];
+  history: GeneratedImage[];
+  updatedSeries: InfographicSeries | null; // Latest saved copy after a panel job delivered its image
+  onEnqueue: (input: JobInput, options?: EnqueueOptions) => GenerationJob;
+  onCancel: (jobId: string) => void;
+  onOpenImage: (image: GeneratedImage) => void;
+  onExportError: (err: unknown) => void;
+  onClose: () => void;
+}
+
+const StoryboardPanel: React.FC<StoryboardPanelProps> = ({ defaults, initialTopic, jobs, history, updatedSeries, onEnqueue, onCancel, onOpenImage, onExportError, onClose }) => {
+  const [seriesList, setSeriesList] = useState<InfographicSeries[]>([]);
+  const [series, setSeries] = useState<InfographicSeries | null>(null);
+  const [images, setImages] = useState<GeneratedImage[]>([]);
+  const [topic, setTopic] = useState(initialTopic);
+  const [panelCount, setPanelCount] = useState(DEFAULT_SERIES_PANELS);
+  const [planMessage, setPlanMessage] = useState<string | null>(null);
+  const [editingPanelId, setEditingPanelId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const seriesRef = useRef<InfographicSeries | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const isBusy = planMessage !== null;
+
+  useEffect(() => {
+    listSeries().then(setSeriesList).catch(e => console.error("Failed to load saved series", e));
+  }, []);
+
+  // Panel images are assigned by the app when their jobs deliver; only the image ids are taken over so
+  // prompt edits made here in the meantime stay
+  useEffect(() => {
+    if (!updatedSeries) return;
+    setSeriesList(prev => prev.map(s => s.id === updatedSeries.id ? updatedSeries : s));
+    const current = seriesRef.current;
+    if (current?.id !== updatedSeries.id) return;
+    const next = {
+      ...current,
+      panels: current.panels.map(panel => ({ ...panel, imageId: updatedSeries.panels.find(p => p.id === panel.id)?.imageId ?? panel.imageId }))
+    };
+    seriesRef.current = next;
+    setSeries(next);
+  }, [updatedSeries]);
+
+  const commitSeries = (next: InfographicSeries | null) => {
+    seriesRef.current = next;
+    setSeries(next);
+    if (!next) return;
+    setSeriesList(prev => [next, ...prev.filter(s => s.id !== next.id)]);
+    saveSeries(next).catch(e => console.error("Failed to save series", e));
+  };
+
+  const updatePanel = (panelId: string, changes: Partial<SeriesPanel>) => {
+    const current = seriesRef.current;
+    if (!current) return;
+    commitSeries({ ...current, panels: current.panels.map(p => p.id === panelId ? { ...p, ...changes } : p), updatedAt: Date.now() });
+  };
+
+  const reportError = (err: unknown) => {
+    console.error(err);
+    const classified = classifyError(err);
+    if (classified.kind !== 'cancelled') setError(classified.message);
+  };
+
+  const openSeries = async (saved: InfographicSeries) => {
+    setError(null);
+    setEditingPanelId(null);
+    commitSeries(saved);
+    setImages([]);
+    try {
+      setImages(await loadImagesById(saved.panels.map(p => p.imageId).filter((id): id is string => !!id)));
+    } catch (e) {
+      console.error("Failed to load series images", e);
+    }
+  };
+
+  const handleDeleteSeries = async (id: string) => {
+    if (!window.confirm("Delete this series? Its panel images stay in Session Archives.")) return;
+    try {
+      await deleteSeries(id);
+      setSeriesList(prev => prev.filter(s => s.id !== id));
+    } catch (e) {
+      console.error("Failed to delete series", e);
+    }
+  };
+
+  const handlePlan = async () => {
+    if (!topic.trim() || isBusy) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setPlanMessage('Researching...');
+    try {
+      const planned = await runSeriesPlanPipeline(topic.trim(), defaults, panelCount, {
+        onStep: (_step, message) => setPlanMessage(message)
+      }, controller.signal);
+      setImages([]);
+      commitSeries(planned);
+    } catch (err) {
+      reportError(err);
+    } finally {
+      controllerRef.current = null;
+      setPlanMessage(null);
+    }
+  };
+
+  // Delivered panels land in the app's history before this panel reloads anything
+  const knownImages = [...images, ...history];
+
+  const panelJobs = series ? jobs.filter(job => job.input.kind === 'seriesPanel' && job.input.series.id === series.id) : [];
+  const activePanelJobs = panelJobs.filter(isJobActive);
+  // The most recent job for a panel decides what its card shows
+  const latestJobFor = (panelId: string) => [...panelJobs].reverse().find(job => job.input.kind === 'seriesPanel' && job.input.panelId === panelId);
+
+  // Without a finished panel to match, the first one runs on its own and hands its image to the rest as their style reference
+  const runPanels = (panelIds: string[]) => {
+    const current = seriesRef.current;
+    if (!current || panelIds.length === 0 || isBusy) return;
+    const budgetWarning = getBudgetWarning(current.settings.resolution, panelIds.length);
+    if (budgetWarning && !window.confirm(budgetWarning)) return;
+    setError(null);
+
+    let first: GenerationJob | undefined;
+    for (const panelId of panelIds) {
+      const styleAnchor = findStyleAnchor(current, knownImages, panelId);
+      const job = onEnqueue({ kind: 'seriesPanel', series: current, panelId, styleAnchor }, { after: styleAnchor ? undefined : first?.id });
+      first = first || job;
+    }
+  };
+
+  const handleStop = () => {
+    controllerRef.current?.abort();
+    activePanelJobs.forEach(job => onCancel(job.id));
+  };
+
+  const handleMove = (panelId: string, offset: number) => {
+    if (series) commitSeries(moveSeriesPanel(series, panelId, offset));
+  };
+
+  const imageFor = (panel: SeriesPanel) => knownImages.find(img => img.id === panel.imageId);
+  const isPanelQueued = (panel: SeriesPanel) => activePanelJobs.some(job => job.input.kind === 'seriesPanel' && job.input.panelId === panel.id);
+  const seriesImages = series ? orderedSeriesImages(series, knownImages) : [];
+  const missingPanels = series ? series.panels.filter(panel => !imageFor(panel) && !isPanelQueued(panel)) : [];
+  const isGenerating = activePanelJobs.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-200 dark:border-white/10">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2 min-w-0">
+            <Clapperboard className="w-5 h-5 text-cyan-600 dark:text-cyan-400 flex-shrink-0" />
+            <span className="truncate">{series ? series.title : 'Series Storyboard'}</span>
+          </h3>
+          <button
+            onClick={onClose}
+            disabled={isBusy}
+            className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title={isBusy ? "Stop planning before closing" : isGenerating ? "Close (queued panels keep running in the Jobs panel)" : "Close"}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="flex items-start gap-2 px-4 py-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-500/30 text-xs text-red-700 dark:text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {!series ? (
+            <>
+              <p className="text-xs text-slate-500">Research a topic once and split it into a sequence of panels that share one palette, typography and set of recurring motifs. Panels use the current audience, style, language, format and brand kit.</p>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <div className="flex-1">
+                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Topic</label>
+                  <input
+                    type="text"
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handlePlan(); }}
+                    placeholder="e.g. The history of the printing press"
+                    disabled={isBusy}
+                    className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm text-slate-900 dark:text-slate-100"
+                  />
+                </div>
+                <div>
+                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Panels</label>
+                  <select
+                    value={panelCount}
+                    onChange={(e) => setPanelCount(parseInt(e.target.value, 10))}
+                    disabled={isBusy}
+                    className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-2 text-sm text-slate-900 dark:text-slate-100"
+                  >
+                    {Array.from({ length: MAX_SERIES_PANELS - MIN_SERIES_PANELS + 1 }, (_, i) => i + MIN_SERIES_PANELS).map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              {seriesList.length > 0 && (
+                <div>
+                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Saved Series</label>
+                  <div className="mt-1 border border-slate-200 dark:border-white/10 rounded-xl divide-y divide-slate-200 dark:divide-white/5">
+                    {seriesList.map(saved => (
+                      <div key={saved.id} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                        <button onClick={() => openSeries(saved)} disabled={isBusy} className="flex-1 min-w-0 text-left disabled:opacity-50">
+                          <p className="font-medium text-slate-800 dark:text-slate-200 truncate">{saved.title}</p>
+                          <p className="text-[10px] font-mono text-slate-500 truncate">
+                            {saved.panels.length} panels · {saved.panels.filter(p => p.imageId).length} generated · {new Date(saved.updatedAt).toLocaleString()}
+                          </p>
+                        </button>
+                        <button onClick={() => handleDeleteSeries(saved.id)} disabled={isBusy} className="p-1.5 rounded-lg text-slate-500 hover:text-red-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50" title="Delete series">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="rounded-xl bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 px-4 py-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Style Guide</span>
+                  <div className="flex gap-1">
+                    {series.styleGuide.palette.map(color => (
+                      <span key={color} className="w-4 h-4 rounded border border-slate-300 dark:border-white/20" style={{ backgroundColor: color }} title={color} />
+                    ))}
+                  </div>
+                </div>
+                {series.styleGuide.description && <p className="text-xs text-slate-600 dark:text-slate-300">{series.styleGuide.description}</p>}
+                <p className="text-[10px] font-mono text-slate-500">
+                  {[series.styleGuide.typography, ...series.styleGuide.motifs].filter(Boolean).join(' · ')}
+                </p>
+                {series.planningUsage && (
+                  <p className="text-[10px] font-mono text-slate-400">
+                    Planning: {totalTokens(series.planningUsage).toLocaleString()} tokens · ≈ {formatCost(estimateCost(series.planningUsage, getPriceTable()))}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {series.panels.map((panel, index) => {
+                  const image = imageFor(panel);
+                  const job = latestJobFor(panel.id);
+                  const isQueued = !!job && isJobActive(job);
+                  const failure = job && (job.status === 'failed' || job.status === 'interrupted') ? job.error || job.message : null;
+                  return (
+                    <div key={panel.id} className="border border-slate-200 dark:border-white/10 rounded-xl overflow-hidden flex flex-col">
+                      <div className="relative aspect-video bg-slate-100 dark:bg-slate-950 flex items-center justify-center">
+                        {image && <img src={image.data} alt={panel.title} className="w-full h-full object-contain" />}
+                        {!image && !isQueued && (
+                          <span className="text-[10px] text-slate-400 flex items-center gap-1">
+                            {panel.imageId ? <><ImageOff className="w-3.5 h-3.5" /> No longer in archive</> : 'Not generated'}
+                          </span>
+                        )}
+                        {isQueued && (
+                          <div className="absolute inset-0 bg-slate-950/60 flex flex-col items-center justify-center gap-2 text-white">
+                            <Loader2 className="w-5 h-5 animate-spin" />
+                            <span className="text-[10px] font-mono px-2 text-center">{job.message}</span>
+                          </div>
+                        )}
+                        <span className="absolute top-2 left-2 px-2 py-0.5 rounded-md bg-slate-900/80 text-white text-[10px] font-bold font-mono">{index + 1}</span>
+                      </div>
+                      <div className="p-3 flex-1 flex flex-col gap-2">
+                        <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate" title={panel.title}>{panel.title}</p>
+                        <p className="text-[10px] font-mono text-slate-500">{panel.facts.length} fact{panel.facts.length === 1 ? '' : 's'}</p>
+                        {failure && <p className="text-[10px] text-red-600 dark:text-red-300 line-clamp-2" title={failure}>{failure}</p>}
+                        {editingPanelId === panel.id && (
+                          <textarea
+                            value={panel.imagePrompt}
+                            onChange={(e) => updatePanel(panel.id, { imagePrompt: e.target.value })}
+                            rows={4}
+                            className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg px-3 py-2 text-xs text-slate-900 dark:text-slate-100"
+                          />
+                        )}
+                        <div className="mt-auto flex items-center gap-1">
+                          <button onClick={() => handleMove(panel.id, -1)} disabled={isBusy || index === 0} className="p-1.5 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30" title="Move earlier">
+                            <ChevronLeft className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleMove(panel.id, 1)} disabled={isBusy || index === series.panels.length - 1} className="p-1.5 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30" title="Move later">
+                            <ChevronRight className="w-4 h-4" />
+                          </button>
+                          <div className="flex-1" />
+                          <button onClick={() => setEditingPanelId(editingPanelId === panel.id ? null : panel.id)} disabled={isBusy} className={`p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30 ${editingPanelId === panel.id ? 'text-cyan-600' : 'text-slate-500 hover:text-cyan-600'}`} title="Edit panel prompt">
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          {image && (
+                            <button onClick={() => onOpenImage(image)} className="p-1.5 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-800" title="Open in main view">
+                              <Eye className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button onClick={() => runPanels([panel.id])} disabled={isBusy || isQueued} className="p-1.5 rounded-lg text-slate-500 hover:text-cyan-600 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30" title={image ? "Regenerate this panel" : "Generate this panel"}>
+                            {image ? <RotateCcw className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 pt-4 border-t border-slate-200 dark:border-white/10">
+          {series ? (
+            <button onClick={() => commitSeries(null)} disabled={isBusy} className="text-xs font-bold text-slate-500 hover:text-cyan-600 flex items-center gap-1 disabled:opacity-50">
+              <ArrowLeft className="w-3.5 h-3.5" />
+              All Series
+            </button>
+          ) : (
+            <span className="text-xs font-mono text-slate-500">{planMessage || `${seriesList.length} saved`}</span>
+          )}
+          <div className="flex gap-2">
+            {(isBusy || isGenerating) && (
+              <button onClick={handleStop} className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold flex items-center gap-2">
+                <Square className="w-3.5 h-3.5" />
+                Stop
+              </button>
+            )}
+            {series ? (
+              <>
+                <ExportMenu
+                  images={seriesImages}
+                  direction="up"
+                  label="Export Series"
+                  iconClassName="w-3.5 h-3.5"
+                  buttonClassName="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold flex items-center gap-2 disabled:opacity-50"
+                  onError={onExportError}
+                />
+                <button onClick={() => runPanels(missingPanels.map(p => p.id))} disabled={isBusy || missingPanels.length === 0} className="px-4 py-2.5 rounded-xl bg-cyan-600 text-white text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+                  {isGenerating && missingPanels.length === 0 ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                  {isGenerating && missingPanels.length === 0 ? 'Generating...' : `Generate ${missingPanels.length} Panel${missingPanels.length === 1 ? '' : 's'}`}
+                </button>
+              </>
+            ) : (
+              <button onClick={handlePlan} disabled={isBusy || !topic.trim()} className="px-4 py-2.5 rounded-xl bg-cyan-600 text-white text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+                {planMessage ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                {planMessage ? 'Planning...' : 'Plan Series'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoryboardPanel;
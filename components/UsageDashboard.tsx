@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { BudgetPeriod, ImageResolution, ModelPrice, PriceTable, UsageSummary } from '../types';
+import {
+  bucketUsage,
+  clearUsageLog,
+  countUsageImages,
+  estimateCost,
+  formatCost,
+  getPriceTable,
+  getUsageBudget,
+  listUsageEntries,
+  periodStart,
+  resetPriceTable,
+  savePriceTable,
+  saveUsageBudget,
+  summarizeUsage,
+  totalTokens,
+  DEFAULT_PRICES,
+  UsageBucket,
+} from '../services/usage';
+import { Receipt, X, Trash2 } from 'lucide-react';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+const RESOLUTIONS: ImageResolution[] = ['1K', '2K', '4K'];
+const DAYS_SHOWN = 7;
+const WEEKS_SHOWN = 8;
+const RECENT_DAYS = 30;
+
+const labelClassName = "text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+const numberInputClassName = "w-20 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg px-2 py-1 text-xs font-mono text-slate-900 dark:text-slate-100";
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const formatImages = (summary: UsageSummary) => {
+  const counts = countUsageImages(summary);
+  const parts = RESOLUTIONS.filter(resolution => counts[resolution]).map(resolution => `${counts[resolution]}×${resolution}`);
+  return parts.length > 0 ? parts.join(' ') : '—';
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState(listUsageEntries());
+  const [prices, setPrices] = useState<PriceTable>(getPriceTable());
+  const [newModel, setNewModel] = useState('');
+  const [budgetLimit, setBudgetLimit] = useState(() => getUsageBudget()?.limit.toString() || '');
+  const [budgetPeriod, setBudgetPeriod] = useState<BudgetPeriod>(() => getUsageBudget()?.period || 'week');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const now = Date.now();
+  const recentSince = now - RECENT_DAYS * 24 * 60 * 60 * 1000;
+  const totals = [
+    { label: 'Today', summary: summarizeUsage(entries.filter(e => e.timestamp >= periodStart('day', now))) },
+    { label: 'This Week', summary: summarizeUsage(entries.filter(e => e.timestamp >= periodStart('week', now))) },
+    { label: `Last ${RECENT_DAYS} Days`, summary: summarizeUsage(entries.filter(e => e.timestamp >= recentSince)) },
+  ];
+  const days = bucketUsage(entries, 'day', DAYS_SHOWN, now);
+  const weeks = bucketUsage(entries, 'week', WEEKS_SHOWN, now);
+  const byModel = totals[2].summary;
+
+  // Every priced model plus any model that was used, except the offline mock
+  const models = Array.from(new Set([...Object.keys(prices), ...Object.keys(byModel)])).filter(model => model !== 'mock');
+
+  const updatePrice = (model: string, changes: Partial<ModelPrice>) => {
+    setPrices(prev => ({ ...prev, [model]: { inputPerMillion: 0, outputPerMillion: 0, ...prev[model], ...changes } }));
+  };
+
+  const updateImagePrice = (model: string, resolution: ImageResolution, value: string) => {
+    const perImage = { ...prices[model]?.perImage };
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed)) perImage[resolution] = parsed; else delete perImage[resolution];
+    updatePrice(model, { perImage: Object.keys(perImage).length > 0 ? perImage : undefined });
+  };
+
+  const handleSavePrices = () => {
+    savePriceTable(prices);
+    setMessage("Price table saved.");
+  };
+
+  const handleResetPrices = () => {
+    resetPriceTable();
+    setPrices(DEFAULT_PRICES);
+    setMessage("Price table reset to the defaults.");
+  };
+
+  const handleAddModel = () => {
+    const model = newModel.trim();
+    if (!model) return;
+    updatePrice(model, {});
+    setNewModel('');
+  };
+
+  const handleSaveBudget = (e: React.FormEvent) => {
+    e.preventDefault();
+    const limit = parseFloat(budgetLimit);
+    if (!budgetLimit.trim()) {
+      saveUsageBudget(null);
+      setMessage("Budget removed.");
+      return;
+    }
+    if (!Number.isFinite(limit) || limit <= 0) {
+      setMessage("Enter a budget greater than zero, or leave it empty for no budget.");
+      return;
+    }
+    saveUsageBudget({ limit, period: budgetPeriod });
+    setMessage(`You'll be warned before a 4K generation once ${budgetPeriod === 'day' ? 'daily' : 'weekly'} spend would pass ${formatCost(limit)}.`);
+  };
+
+  const handleClearLog = () => {
+    if (!window.confirm("Clear the usage log? Per-image usage in Session Archives is kept.")) return;
+    clearUsageLog();
+    setEntries([]);
+  };
+
+  const renderRows = (buckets: UsageBucket[], formatLabel: (start: number) => string) => (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-slate-500">
+          <th className="py-1.5 font-bold">Period</th>
+          <th className="py-1.5 font-bold text-right">Tokens</th>
+          <th className="py-1.5 font-bold text-right">Images</th>
+          <th className="py-1.5 font-bold text-right">Est. Cost</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-200 dark:divide-white/5 font-mono text-slate-700 dark:text-slate-300">
+        {buckets.map(bucket => (
+          <tr key={bucket.start}>
+            <td className="py-1.5 font-sans">{formatLabel(bucket.start)}</td>
+            <td className="py-1.5 text-right">{formatTokens(totalTokens(bucket.summary))}</td>
+            <td className="py-1.5 text-right">{formatImages(bucket.summary)}</td>
+            <td className="py-1.5 text-right">{formatCost(estimateCost(bucket.summary, prices))}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-6 pb-4 border-b border-slate-200 dark:border-white/10">
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <Receipt className="w-5 h-5 text-cyan-600 dark:text-cyan-400" />
+            Usage & Cost
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-xs text-slate-500">Token counts come from the API's usage metadata. Costs are estimates from the price table below, not your bill.</p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {totals.map(total => (
+              <div key={total.label} className="p-4 rounded-xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-slate-950">
+                <p className={labelClassName}>{total.label}</p>
+                <p className="text-2xl font-bold text-slate-900 dark:text-white">{formatCost(estimateCost(total.summary, prices))}</p>
+                <p className="text-[10px] font-mono text-slate-500">{formatTokens(totalTokens(total.summary))} tokens · {formatImages(total.summary)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <p className={labelClassName}>Daily</p>
+              {renderRows(days, start => new Date(start).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' }))}
+            </div>
+            <div>
+              <p className={labelClassName}>Weekly</p>
+              {renderRows(weeks, start => `Week of ${new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`)}
+            </div>
+          </div>
+
+          <div>
+            <p className={labelClassName}>By Model (Last {RECENT_DAYS} Days)</p>
+            {Object.keys(byModel).length === 0 ? (
+              <p className="text-xs text-slate-500 mt-1">No model calls recorded yet.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-slate-500">
+                    <th className="py-1.5 font-bold">Model</th>
+                    <th className="py-1.5 font-bold text-right">Calls</th>
+                    <th className="py-1.5 font-bold text-right">Prompt</th>
+                    <th className="py-1.5 font-bold text-right">Output</th>
+                    <th className="py-1.5 font-bold text-right">Thinking</th>
+                    <th className="py-1.5 font-bold text-right">Images</th>
+                    <th className="py-1.5 font-bold text-right">Est. Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-white/5 font-mono text-slate-700 dark:text-slate-300">
+                  {Object.entries(byModel).map(([model, usage]) => (
+                    <tr key={model}>
+                      <td className="py-1.5">{model}</td>
+                      <td className="py-1.5 text-right">{usage.calls}</td>
+                      <td className="py-1.5 text-right">{formatTokens(usage.promptTokens)}</td>
+                      <td className="py-1.5 text-right">{formatTokens(usage.outputTokens)}</td>
+                      <td className="py-1.5 text-right">{formatTokens(usage.thinkingTokens)}</td>
+                      <td className="py-1.5 text-right">{formatImages({ [model]: usage })}</td>
+                      <td className="py-1.5 text-right">
+                        {prices[model] ? formatCost(estimateCost({ [model]: usage }, prices)) : <span className="text-amber-600 dark:text-amber-400" title="Add this model to the price table">{model === 'mock' ? 'free' : 'no price'}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <form onSubmit={handleSaveBudget} className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className={labelClassName}>Soft Budget (USD)</label>
+              <input type="number" min={0} step="0.01" value={budgetLimit} onChange={(e) => setBudgetLimit(e.target.value)} placeholder="None" className="block w-28 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-slate-100" />
+            </div>
+            <div>
+              <label className={labelClassName}>Per</label>
+              <select value={budgetPeriod} onChange={(e) => setBudgetPeriod(e.target.value as BudgetPeriod)} className="block bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-slate-100">
+                <option value="day">Day</option>
+                <option value="week">Week</option>
+              </select>
+            </div>
+            <button type="submit" className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 text-xs font-bold">Save Budget</button>
+            <p className="text-[10px] text-slate-500 flex-1 min-w-[12rem]">4K generations ask for confirmation once they would push estimated spend past this amount.</p>
+          </form>
+
+          <div>
+            <p className={labelClassName}>Price Table (USD)</p>
+            <table className="w-full text-xs mt-1">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1.5 font-bold">Model</th>
+                  <th className="py-1.5 font-bold">Input / 1M</th>
+                  <th className="py-1.5 font-bold">Output / 1M</th>
+                  {RESOLUTIONS.map(resolution => <th key={resolution} className="py-1.5 font-bold">{resolution} Image</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(model => (
+                  <tr key={model}>
+                    <td className="py-1 pr-2 font-mono text-slate-700 dark:text-slate-300">{model}</td>
+                    <td className="py-1"><input type="number" min={0} step="0.01" value={prices[model]?.inputPerMillion ?? ''} onChange={(e) => updatePrice(model, { inputPerMillion: parseFloat(e.target.value) || 0 })} className={numberInputClassName} /></td>
+                    <td className="py-1"><input type="number" min={0} step="0.01" value={prices[model]?.outputPerMillion ?? ''} onChange={(e) => updatePrice(model, { outputPerMillion: parseFloat(e.target.value) || 0 })} className={numberInputClassName} /></td>
+                    {RESOLUTIONS.map(resolution => (
+                      <td key={resolution} className="py-1"><input type="number" min={0} step="0.001" value={prices[model]?.perImage?.[resolution] ?? ''} onChange={(e) => updateImagePrice(model, resolution, e.target.value)} placeholder="—" className={numberInputClassName} /></td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <input type="text" value={newModel} onChange={(e) => setNewModel(e.target.value)} placeholder="model-name" className="w-48 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-900 dark:text-slate-100" />
+              <button type="button" onClick={handleAddModel} disabled={!newModel.trim()} className="text-xs font-bold text-cyan-600 dark:text-cyan-400 hover:underline disabled:opacity-50">Add Model</button>
+              <div className="ml-auto flex gap-2">
+                <button type="button" onClick={handleResetPrices} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-500 hover:underline">Reset Defaults</button>
+                <button type="button" onClick={handleSavePrices} className="px-4 py-2 rounded-xl bg-cyan-600 text-white text-xs font-bold">Save Prices</button>
+              </div>
+            </div>
+          </div>
+
+          {message && <p className="text-xs text-slate-600 dark:text-slate-300">{message}</p>}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-6 pt-4 border-t border-slate-200 dark:border-white/10">
+          <span className="text-xs font-mono text-slate-500">{entries.length} calls logged</span>
+          <button onClick={handleClearLog} disabled={entries.length === 0} className="px-4 py-2.5 rounded-xl text-red-600 dark:text-red-400 text-xs font-bold flex items-center gap-2 disabled:opacity-50">
+            <Trash2 className="w-3.5 h-3.5" />
+            Clear Usage Log
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
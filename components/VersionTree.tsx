@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { GeneratedImage } from '../types';
+import { LineageNode, buildLineageTree, findRootImage, countLineageNodes } from '../services/lineage';
+import { GitBranch, Edit3, Columns2 } from 'lucide-react';
+
+interface VersionTreeProps {
+  images: GeneratedImage[];
+  activeImageId: string;
+  onSelect: (id: string) => void;
+  onCompare?: (id: string) => void; // Compare a revision with the active image
+}
+
+const VersionTree: React.FC<VersionTreeProps> = ({ images, activeImageId, onSelect, onCompare }) => {
+  const root = findRootImage(images, activeImageId);
+  const tree = root ? buildLineageTree(images, root.id) : null;
+  if (!tree || countLineageNodes(tree) < 2) return null;
+
+  const renderNode = (node: LineageNode) => {
+    const isActive = node.image.id === activeImageId;
+    const isOriginal = !node.image.parentId;
+
+    return (
+      <li key={node.image.id} className="relative">
+        <div
+          className={`group flex items-center gap-3 p-2 pr-3 rounded-xl border transition-all bg-white dark:bg-slate-900/60 ${isActive ? 'border-cyan-500 ring-2 ring-cyan-500/20' : 'border-slate-200 dark:border-white/5 hover:border-cyan-500/50'}`}
+        >
+          <img src={node.image.data} alt={node.image.prompt} className="w-16 h-10 object-cover rounded-md bg-checkered flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] font-mono font-bold uppercase tracking-wider text-cyan-600 dark:text-cyan-400">
+                {isOriginal ? 'Original' : `Rev ${node.image.revision ?? '?'}`}
+              </span>
+              {node.children.length > 1 && (
+                <span className="text-[9px] font-mono text-slate-400">{node.children.length} branches</span>
+              )}
+            </div>
+            <p className="text-xs text-slate-700 dark:text-slate-300 truncate" title={node.image.prompt}>
+              {isOriginal ? node.image.prompt : `"${node.image.prompt}"`}
+            </p>
+          </div>
+          {onCompare && !isActive && (
+            <button
+              onClick={() => onCompare(node.image.id)}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              title="Compare this revision with the active image"
+            >
+              <Columns2 className="w-3 h-3" />
+              <span>Compare</span>
+            </button>
+          )}
+          <button
+            onClick={() => onSelect(node.image.id)}
+            disabled={isActive}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-default"
+            title="Make this the active image and branch new edits from it"
+          >
+            <Edit3 className="w-3 h-3" />
+            <span>{isActive ? 'Editing' : 'Branch'}</span>
+          </button>
+        </div>
+        {node.children.length > 0 && (
+          <ul className="mt-2 ml-6 pl-4 space-y-2 border-l border-dashed border-slate-300 dark:border-white/10">
+            {node.children.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-8 duration-1000">
+      <div className="flex items-center gap-3 mb-6 border-t border-slate-200 dark:border-white/10 pt-8 transition-colors">
+        <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-purple-600 dark:text-purple-400 shadow-sm">
+            <GitBranch className="w-5 h-5" />
+        </div>
+        <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">Revision History</h3>
+      </div>
+      <ul className="space-y-2">
+        {renderNode(tree)}
+      </ul>
+    </div>
+  );
+};
+
+export default VersionTree;
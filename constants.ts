@@ -0,0 +1,11 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio, BuiltInComplexityLevel, BuiltInVisualStyle, Language } from "./types";
+
+// Every built-in value of the generation options, for parsing and for pickers that list them all
+export const LEVELS: readonly BuiltInComplexityLevel[] = ['Elementary', 'High School', 'College', 'Expert'];
+export const STYLES: readonly BuiltInVisualStyle[] = ['Default', 'Minimalist', 'Realistic', 'Cartoon', 'Vintage', 'Futuristic', '3D Render', 'Sketch'];
+export const LANGUAGES: readonly Language[] = ['English', 'Spanish', 'French', 'German', 'Mandarin', 'Japanese', 'Hindi', 'Arabic', 'Portuguese', 'Russian'];
+export const ASPECT_RATIOS: readonly AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9', '21:9'];
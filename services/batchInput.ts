@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BatchRow, PresetKind } from "../types";
+import { ASPECT_RATIOS, LANGUAGES, LEVELS, STYLES } from "../constants";
+import { findPresetByName } from "./presets";
+
+export interface BatchParseResult {
+  rows: BatchRow[];
+  errors: string[];
+}
+
+const createRowId = () => Math.random().toString(36).substr(2, 9);
+
+// Case-insensitive lookup so "high school" or "expert" in a spreadsheet still match
+const matchOption = <T extends string>(options: readonly T[], value: string): T | undefined => {
+  const needle = value.trim().toLowerCase();
+  return needle ? options.find(option => option.toLowerCase() === needle) : undefined;
+};
+
+// Custom audience and style presets can be referenced by name
+const matchOptionOrPreset = <T extends string>(options: readonly T[], kind: PresetKind) => (value: string) =>
+  matchOption(options, value) ?? findPresetByName(kind, value)?.id;
+
+const buildRow = (fields: Record<string, unknown>, label: string, errors: string[]): BatchRow | null => {
+  const topic = typeof fields.topic === 'string' ? fields.topic.trim() : '';
+  if (!topic) {
+    errors.push(`${label}: missing topic.`);
+    return null;
+  }
+
+  // Blank fields fall back to the current settings; anything else has to match
+  const unknown: string[] = [];
+  const override = <T>(field: string, match: (value: string) => T | undefined): T | undefined => {
+    const raw = fields[field];
+    if (raw === undefined || raw === null || raw === '') return undefined;
+    const matched = typeof raw === 'string' ? match(raw) : undefined;
+    if (matched === undefined) unknown.push(`${label}: unknown ${field} "${raw}".`);
+    return matched;
+  };
+
+  const row: BatchRow = {
+    id: createRowId(),
+    topic,
+    level: override('level', matchOptionOrPreset(LEVELS, 'audience')),
+    style: override('style', matchOptionOrPreset(STYLES, 'style')),
+    language: override('language', value => matchOption(LANGUAGES, value)),
+    aspectRatio: override('aspectRatio', value => matchOption(ASPECT_RATIOS, value)),
+  };
+  if (unknown.length > 0) {
+    errors.push(...unknown);
+    return null;
+  }
+  return row;
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and newlines inside quotes
+export const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(r => r.some(cell => cell.trim()));
+};
+
+const HEADER_ALIASES: Record<string, string> = {
+  topic: 'topic',
+  title: 'topic',
+  level: 'level',
+  audience: 'level',
+  style: 'style',
+  aesthetic: 'style',
+  language: 'language',
+  aspectratio: 'aspectRatio',
+  'aspect ratio': 'aspectRatio',
+  format: 'aspectRatio',
+};
+
+export const parseBatchCsv = (text: string): BatchParseResult => {
+  const records = parseCsvRecords(text);
+  const errors: string[] = [];
+  if (records.length === 0) return { rows: [], errors: ['The CSV file is empty.'] };
+
+  const header = records[0].map(cell => HEADER_ALIASES[cell.trim().toLowerCase()]);
+  const hasHeader = header.includes('topic');
+  const columns = hasHeader ? header : ['topic', 'level', 'style', 'language', 'aspectRatio'];
+  const body = hasHeader ? records.slice(1) : records;
+
+  const rows: BatchRow[] = [];
+  body.forEach((record, index) => {
+    const fields: Record<string, unknown> = {};
+    columns.forEach((column, col) => {
+      if (column) fields[column] = record[col];
+    });
+    const row = buildRow(fields, `Row ${index + (hasHeader ? 2 : 1)}`, errors);
+    if (row) rows.push(row);
+  });
+  return { rows, errors };
+};
+
+export const parseBatchJson = (text: string): BatchParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { rows: [], errors: ['The JSON file could not be parsed.'] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { rows: [], errors: ['The JSON file must contain an array of topics.'] };
+  }
+
+  const errors: string[] = [];
+  const rows: BatchRow[] = [];
+  parsed.forEach((item, index) => {
+    const fields = typeof item === 'string' ? { topic: item } : (item && typeof item === 'object' ? item as Record<string, unknown> : {});
+    const row = buildRow(fields, `Item ${index + 1}`, errors);
+    if (row) rows.push(row);
+  });
+  return { rows, errors };
+};
+
+// Pasted text: one topic per line, unless it looks like CSV or JSON
+export const parseBatchText = (text: string): BatchParseResult => {
+  const trimmed = text.trim();
+  if (!trimmed) return { rows: [], errors: [] };
+  if (trimmed.startsWith('[')) return parseBatchJson(trimmed);
+  if (trimmed.split(/\r?\n/)[0].toLowerCase().split(',').map(c => c.trim()).includes('topic')) return parseBatchCsv(trimmed);
+
+  const rows = trimmed.split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').trim())
+    .filter(line => line.length > 0)
+    .map(topic => ({ id: createRowId(), topic }));
+  return { rows, errors: [] };
+};
+
+export const parseBatchFile = (fileName: string, text: string): BatchParseResult => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.json')) return parseBatchJson(text);
+  if (lower.endsWith('.csv')) return parseBatchCsv(text);
+  return parseBatchText(text);
+};
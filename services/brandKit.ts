@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BrandCheck, BrandKit, DominantColor, ReferenceImage } from "../types";
+
+const BRAND_KITS_STORAGE_KEY = 'infogenius_brand_kits';
+export const DEFAULT_BRAND_TOLERANCE = 0.15;
+export const MAX_BRAND_FIX_ROUNDS = 1;
+
+// Colors further than this (CIE76 delta E) from every palette entry count as off-brand
+const COLOR_DISTANCE_THRESHOLD = 25;
+// Whites, greys and blacks are allowed by every kit; backgrounds and body text are usually neutral
+const NEUTRAL_CHROMA = 12;
+const SAMPLE_DIMENSION = 128;
+const DOMINANT_COLOR_COUNT = 6;
+const MERGE_DISTANCE = 12;
+const LOGO_MAX_DIMENSION = 512;
+
+export const createBrandKitId = () => Math.random().toString(36).substr(2, 9);
+
+export const listBrandKits = (): BrandKit[] => {
+  try {
+    const saved = localStorage.getItem(BRAND_KITS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to parse saved brand kits", e);
+    return [];
+  }
+};
+
+const writeBrandKits = (kits: BrandKit[]) => {
+  localStorage.setItem(BRAND_KITS_STORAGE_KEY, JSON.stringify(kits));
+};
+
+export const getBrandKit = (id: string | undefined): BrandKit | undefined =>
+  id ? listBrandKits().find(kit => kit.id === id) : undefined;
+
+export const saveBrandKit = (kit: BrandKit) => {
+  const others = listBrandKits().filter(existing => existing.id !== kit.id);
+  writeBrandKits([...others, { ...kit, updatedAt: Date.now() }]);
+};
+
+export const deleteBrandKit = (id: string) => {
+  writeBrandKits(listBrandKits().filter(kit => kit.id !== id));
+};
+
+// Accepts "#abc", "abc", "#aabbcc" or "AABBCC"; returns lowercase "#aabbcc" or null
+export const normalizeHex = (value: string): string | null => {
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return `#${hex.toLowerCase()}`;
+};
+
+// Prompt block shared by research and image generation
+export const describeBrandKit = (kit: BrandKit): string => {
+  const lines = [
+    `BRAND KIT "${kit.name}" (mandatory, overrides any conflicting aesthetic instruction):`,
+    kit.colors.length > 0 && `- Use ONLY these colors for fills, icons, charts and accents: ${kit.colors.join(', ')}. White, black and greys are allowed for backgrounds and body text. No other hues.`,
+    kit.fonts.trim() && `- Typography: ${kit.fonts.trim()}`,
+    kit.logo && `- Place the attached brand logo ("Brand logo") unaltered in a corner of the infographic.`,
+    kit.footerText?.trim() && `- Include this exact footer text at the bottom: "${kit.footerText.trim()}"`,
+    kit.forbidden.length > 0 && `- Never include: ${kit.forbidden.join('; ')}`,
+  ];
+  return lines.filter(Boolean).join('\n');
+};
+
+// The logo travels as a required-asset reference image alongside any user references
+export const withBrandLogo = (references: ReferenceImage[], kit: BrandKit | undefined): ReferenceImage[] =>
+  kit?.logo ? [...references, { name: 'Brand logo', data: kit.logo, role: 'asset' }] : references;
+
+type Lab = [number, number, number];
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const rgbToHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const linear = (v: number) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  // sRGB -> XYZ (D65), normalized by the reference white
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+const deltaE = (a: Lab, b: Lab) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const isNeutral = (lab: Lab) => Math.hypot(lab[1], lab[2]) < NEUTRAL_CHROMA;
+
+const readSamplePixels = (src: string): Promise<Uint8ClampedArray> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, SAMPLE_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+    };
+    img.onerror = () => reject(new Error("Could not load the image for the brand check."));
+    img.src = src;
+  });
+};
+
+// Downsamples the image, buckets pixels by color and compares every non-neutral pixel with the palette
+export const checkBrandCompliance = async (imageData: string, kit: BrandKit, fixRounds: number = 0): Promise<BrandCheck> => {
+  const pixels = await readSamplePixels(imageData);
+  const palette = kit.colors.map(hex => ({ hex, lab: rgbToLab(...hexToRgb(hex)) }));
+  const nearestPaletteColor = (lab: Lab) => {
+    let best: { hex: string; distance: number } | undefined;
+    for (const entry of palette) {
+      const distance = deltaE(lab, entry.lab);
+      if (!best || distance < best.distance) best = { hex: entry.hex, distance };
+    }
+    return best;
+  };
+
+  // 4 bits per channel keeps anti-aliasing and JPEG noise in the same bucket
+  const buckets = new Map<number, { r: number; g: number; b: number; count: number }>();
+  let total = 0;
+  let chromatic = 0;
+  let offBrand = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue;
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    total++;
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, count: 0 };
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    bucket.count++;
+    buckets.set(key, bucket);
+
+    const lab = rgbToLab(r, g, b);
+    if (isNeutral(lab)) continue;
+    chromatic++;
+    const nearest = nearestPaletteColor(lab);
+    if (!nearest || nearest.distance > COLOR_DISTANCE_THRESHOLD) offBrand++;
+  }
+
+  // Largest buckets first, folding near-duplicates into the color already picked
+  const picked: { lab: Lab; r: number; g: number; b: number; count: number }[] = [];
+  for (const bucket of Array.from(buckets.values()).sort((a, b) => b.count - a.count)) {
+    const [r, g, b] = [bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count];
+    const lab = rgbToLab(r, g, b);
+    const similar = picked.find(color => deltaE(color.lab, lab) < MERGE_DISTANCE);
+    if (similar) {
+      similar.count += bucket.count;
+    } else if (picked.length < DOMINANT_COLOR_COUNT * 2) {
+      picked.push({ lab, r, g, b, count: bucket.count });
+    }
+  }
+
+  const colors: DominantColor[] = picked
+    .sort((a, b) => b.count - a.count)
+    .slice(0, DOMINANT_COLOR_COUNT)
+    .map(color => {
+      const nearest = nearestPaletteColor(color.lab);
+      return {
+        hex: rgbToHex(color.r, color.g, color.b),
+        share: total > 0 ? color.count / total : 0,
+        onBrand: isNeutral(color.lab) || (!!nearest && nearest.distance <= COLOR_DISTANCE_THRESHOLD),
+        nearest: nearest?.hex,
+      };
+    });
+
+  const offBrandShare = chromatic > 0 ? offBrand / chromatic : 0;
+  return {
+    kitId: kit.id,
+    kitName: kit.name,
+    palette: kit.colors,
+    colors,
+    offBrandShare,
+    isOnBrand: palette.length === 0 || offBrandShare <= kit.tolerance,
+    fixRounds,
+  };
+};
+
+// Edit instruction that maps each off-brand dominant color onto its closest palette color
+export const buildBrandCorrectionPrompt = (check: BrandCheck, kit: BrandKit): string => {
+  const replacements = check.colors
+    .filter(color => !color.onBrand)
+    .map(color => `${color.hex} -> ${color.nearest || kit.colors[0]}`);
+  return [
+    `Recolor this infographic to follow the "${kit.name}" brand palette: ${kit.colors.join(', ')}.`,
+    replacements.length > 0 && `Replace these off-brand colors: ${replacements.join(', ')}.`,
+    `Keep the layout, text, numbers, icons and logo exactly as they are; only change colors.`,
+    kit.footerText?.trim() && `Make sure the footer reads "${kit.footerText.trim()}".`,
+  ].filter(Boolean).join(' ');
+};
+
+// Logos are stored with the kit in localStorage, so they are capped in size but kept as PNG for transparency
+export const prepareLogo = (source: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, LOGO_MAX_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error("Could not read the logo image."));
+    img.src = source;
+  });
+};
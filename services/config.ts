@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerationModels } from "../types";
+import { ProviderId } from "./providers/provider";
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  textModel: string;
+  imageModel: string;
+  editModel: string;
+  // Proxy template for fetching URL context sources; `{url}` is replaced with the encoded page URL. Empty fetches directly (needs CORS).
+  urlFetcher: string;
+}
+
+const CONFIG_STORAGE_KEY = 'infogenius_provider_config';
+
+// Gemini, with the pro text model for research and the pro image model for generation and edits
+const DEFAULT_CONFIG: ProviderConfig = {
+  provider: 'gemini',
+  textModel: 'gemini-3-pro-preview',
+  imageModel: 'gemini-3-pro-image-preview',
+  editModel: 'gemini-3-pro-image-preview',
+  urlFetcher: '',
+};
+
+const fromEnv = (): Partial<ProviderConfig> => {
+  const config: Partial<ProviderConfig> = {};
+  const provider = process.env.INFOGENIUS_PROVIDER;
+  if (provider === 'gemini' || provider === 'mock') config.provider = provider;
+  if (process.env.INFOGENIUS_TEXT_MODEL) config.textModel = process.env.INFOGENIUS_TEXT_MODEL;
+  if (process.env.INFOGENIUS_IMAGE_MODEL) config.imageModel = process.env.INFOGENIUS_IMAGE_MODEL;
+  if (process.env.INFOGENIUS_EDIT_MODEL) config.editModel = process.env.INFOGENIUS_EDIT_MODEL;
+  if (process.env.INFOGENIUS_URL_FETCHER) config.urlFetcher = process.env.INFOGENIUS_URL_FETCHER;
+  return config;
+};
+
+const fromStorage = (): Partial<ProviderConfig> => {
+  try {
+    const saved = localStorage.getItem(CONFIG_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to parse saved provider config", e);
+    return {};
+  }
+};
+
+// Precedence: saved overrides, then build-time env, then defaults
+export const getProviderConfig = (): ProviderConfig => {
+  return { ...DEFAULT_CONFIG, ...fromEnv(), ...fromStorage() };
+};
+
+export const saveProviderConfig = (overrides: Partial<ProviderConfig>) => {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({ ...fromStorage(), ...overrides }));
+};
+
+export const resetProviderConfig = () => {
+  localStorage.removeItem(CONFIG_STORAGE_KEY);
+};
+
+// Recorded on each image so its provenance survives later config changes
+export const getGenerationModels = (): GenerationModels => {
+  const { provider, textModel, imageModel, editModel } = getProviderConfig();
+  return { provider, textModel, imageModel, editModel };
+};
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Undo/redo over image ids. Nothing is deleted: undo only moves the active image back to the revision
+// an edit started from, and the undone revision stays in the archive so redo can return to it.
+// The stacks belong to one line of edits: they only apply while its head is the image on screen.
+
+export interface EditSession {
+  headId: string | null; // Image the stacks were built around
+  undo: string[]; // Most recent last
+  redo: string[];
+}
+
+export const EMPTY_EDIT_SESSION: EditSession = { headId: null, undo: [], redo: [] };
+
+const MAX_UNDO_DEPTH = 100;
+
+// A new edit from `fromId` starts a fresh forward branch, so redo history is dropped.
+// Editing an image outside the current line starts a new line.
+export const recordEdit = (session: EditSession, fromId: string, resultId: string): EditSession => ({
+  headId: resultId,
+  undo: [...(session.headId === fromId ? session.undo : []), fromId].slice(-MAX_UNDO_DEPTH),
+  redo: [],
+});
+
+// Ids of images that are no longer available (evicted or cleared) are skipped
+const step = (from: string[], to: string[], currentId: string, exists: (id: string) => boolean) => {
+  const remaining = [...from];
+  while (remaining.length > 0) {
+    const targetId = remaining.pop()!;
+    if (exists(targetId) && targetId !== currentId) {
+      return { targetId, from: remaining, to: [...to, currentId] };
+    }
+  }
+  return null;
+};
+
+export const undoEdit = (session: EditSession, currentId: string, exists: (id: string) => boolean) => {
+  if (session.headId !== currentId) return null;
+  const result = step(session.undo, session.redo, currentId, exists);
+  return result ? { targetId: result.targetId, session: { headId: result.targetId, undo: result.from, redo: result.to } } : null;
+};
+
+export const redoEdit = (session: EditSession, currentId: string, exists: (id: string) => boolean) => {
+  if (session.headId !== currentId) return null;
+  const result = step(session.redo, session.undo, currentId, exists);
+  return result ? { targetId: result.targetId, session: { headId: result.targetId, undo: result.to, redo: result.from } } : null;
+};
+
+const canStep = (session: EditSession, ids: string[], currentId: string | null, exists: (id: string) => boolean) =>
+  session.headId !== null && session.headId === currentId && ids.some(id => id !== currentId && exists(id));
+
+export const canUndo = (session: EditSession, currentId: string | null, exists: (id: string) => boolean) =>
+  canStep(session, session.undo, currentId, exists);
+
+export const canRedo = (session: EditSession, currentId: string | null, exists: (id: string) => boolean) =>
+  canStep(session, session.redo, currentId, exists);
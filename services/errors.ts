@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ErrorKind = 'auth' | 'quota' | 'safety' | 'recitation' | 'no_image' | 'network' | 'parse' | 'cancelled' | 'unknown';
+
+// Base class for every failure the service layer reports; `kind` drives the UI message and recovery action
+export class InfoGeniusError extends Error {
+  readonly kind: ErrorKind;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(kind: ErrorKind, message: string, retryable: boolean, cause?: unknown) {
+    super(message);
+    this.name = 'InfoGeniusError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+// Missing, invalid or unbilled API key, or no access to the configured model
+export class AuthError extends InfoGeniusError {
+  constructor(message: string, cause?: unknown) {
+    super('auth', message, false, cause);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends InfoGeniusError {
+  constructor(message: string, cause?: unknown) {
+    super('quota', message, true, cause);
+    this.name = 'QuotaError';
+  }
+}
+
+export class SafetyBlockError extends InfoGeniusError {
+  readonly blockReason: string;
+
+  constructor(blockReason: string, message: string, cause?: unknown) {
+    super('safety', message, false, cause);
+    this.name = 'SafetyBlockError';
+    this.blockReason = blockReason;
+  }
+}
+
+// The model stopped because its output repeated a source too closely. Not a content problem, so a retry can succeed.
+export class RecitationError extends InfoGeniusError {
+  constructor(message: string, cause?: unknown) {
+    super('recitation', message, true, cause);
+    this.name = 'RecitationError';
+  }
+}
+
+// The model answered but returned no image part; usually transient
+export class NoImageError extends InfoGeniusError {
+  constructor(message: string, cause?: unknown) {
+    super('no_image', message, true, cause);
+    this.name = 'NoImageError';
+  }
+}
+
+export class NetworkError extends InfoGeniusError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+export class ParseError extends InfoGeniusError {
+  readonly rawText: string;
+
+  constructor(message: string, rawText: string, cause?: unknown) {
+    super('parse', message, false, cause);
+    this.name = 'ParseError';
+    this.rawText = rawText;
+  }
+}
+
+// The user stopped the run, e.g. by discarding the plan in the review step; not shown as a failure
+export class CancelledError extends InfoGeniusError {
+  constructor(message: string = 'Generation was cancelled.') {
+    super('cancelled', message, false);
+    this.name = 'CancelledError';
+  }
+}
+
+export type ResearchParseFailure = 'empty_response' | 'invalid_json' | 'invalid_shape' | 'no_facts' | 'no_image_prompt';
+
+// Raised when the research model's structured response cannot be turned into a ResearchResult
+export class ResearchParseError extends ParseError {
+  readonly reason: ResearchParseFailure;
+
+  constructor(reason: ResearchParseFailure, message: string, rawText: string) {
+    super(message, rawText);
+    this.name = 'ResearchParseError';
+    this.reason = reason;
+  }
+}
+
+const messageOf = (err: unknown): string => {
+  if (err instanceof Error) return err.message;
+  return typeof err === 'string' ? err : '';
+};
+
+// Thrown values are untyped, so the fields fetch and the SDK set are read only after checking they exist
+const nameOf = (err: unknown): unknown =>
+  typeof err === 'object' && err !== null && 'name' in err ? err.name : undefined;
+
+const statusOf = (err: unknown): number | undefined =>
+  typeof err === 'object' && err !== null && 'status' in err && typeof err.status === 'number' ? err.status : undefined;
+
+// Only wording that names a filter counts; a bare "blocked" also shows up in CORS and network messages
+const SAFETY_PATTERN = /\bsafety\b|prohibited_content|blocklist|(?:prompt|request|response|content) (?:was )?blocked/;
+
+// Maps raw SDK / fetch failures onto the hierarchy. Already-classified errors pass through unchanged.
+export const classifyError = (err: unknown): InfoGeniusError => {
+  if (err instanceof InfoGeniusError) return err;
+  // Raised by fetch and the SDK when an AbortSignal fires
+  if (nameOf(err) === 'AbortError') return new CancelledError();
+
+  const message = messageOf(err);
+  const status = statusOf(err);
+  const lower = message.toLowerCase();
+
+  if (status === 401 || status === 403 || status === 404 || lower.includes('requested entity was not found') || lower.includes('api key not valid') || lower.includes('permission_denied')) {
+    return new AuthError(message || 'The API key was rejected.', err);
+  }
+  if (status === 429 || lower.includes('resource_exhausted') || lower.includes('quota') || lower.includes('rate limit')) {
+    return new QuotaError(message || 'Rate limit or quota exceeded.', err);
+  }
+  if (lower.includes('recitation')) {
+    return new RecitationError(message, err);
+  }
+  if (SAFETY_PATTERN.test(lower)) {
+    return new SafetyBlockError('SAFETY', message, err);
+  }
+  if ((status !== undefined && status >= 500) || err instanceof TypeError || lower.includes('failed to fetch') || lower.includes('network') || lower.includes('unavailable') || lower.includes('timeout')) {
+    return new NetworkError(message || 'The service could not be reached.', err);
+  }
+  return new InfoGeniusError('unknown', message || 'Unexpected error.', false, err);
+};
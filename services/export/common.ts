@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage } from "../../types";
+import { presetLabel } from "../presets";
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking immediately can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+
+export const exportBaseName = (image: GeneratedImage): string => {
+  const title = slugify(image.research?.title || image.prompt);
+  return `infographic-${title || image.id}${image.revision ? `-rev${image.revision}` : ''}`;
+};
+
+export const imageTitle = (image: GeneratedImage): string => image.research?.title || image.prompt;
+
+export const loadImageSize = (dataUrl: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Could not read the image for export."));
+    img.src = dataUrl;
+  });
+};
+
+// Scales a box of `width` x `height` to fit inside `maxWidth` x `maxHeight`, preserving aspect ratio
+export const fitInside = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / width, maxHeight / height);
+  return { width: width * scale, height: height * scale };
+};
+
+// Facts with their citation numbers, followed by the numbered source list they point to
+export const citationLines = (image: GeneratedImage): { facts: string[]; sources: string[] } => {
+  const research = image.research;
+  if (!research) return { facts: [], sources: [] };
+  return {
+    facts: research.facts.map((fact, i) => {
+      const cited = fact.groundingIndices.length > 0 ? fact.groundingIndices : fact.sourceIndices;
+      const marks = cited.map(index => `[${index + 1}]`).join('');
+      return `${i + 1}. ${fact.text}${marks ? ` ${marks}` : ''}${fact.groundingIndices.length === 0 ? ' (unverified)' : ''}`;
+    }),
+    sources: research.searchResults.map((source, i) => `[${i + 1}] ${source.title} — ${source.url}`),
+  };
+};
+
+export const settingsSummary = (image: GeneratedImage): string => [
+  image.level && presetLabel(image.level, image.customPresets),
+  image.style && presetLabel(image.style, image.customPresets),
+  image.language,
+  image.aspectRatio,
+  image.resolution,
+].filter(Boolean).join(' · ');
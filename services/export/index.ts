@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage } from "../../types";
+import { downloadBlob, exportBaseName } from "./common";
+import { exportPdf } from "./pdf";
+import { embedProvenance } from "./pngMetadata";
+import { exportPptx } from "./pptx";
+import { exportSvg, exportSvgBundle } from "./svg";
+import { exportZip } from "./zip";
+
+export type ExportFormat = 'png' | 'svg' | 'pdf' | 'pptx' | 'zip';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'png', label: 'PNG', description: 'Image with embedded provenance' },
+  { format: 'svg', label: 'SVG', description: 'PNG wrapped in SVG, provenance in metadata' },
+  { format: 'pdf', label: 'PDF', description: 'Image with facts and sources appendix' },
+  { format: 'pptx', label: 'PowerPoint', description: 'One slide each, citations in notes' },
+  { format: 'zip', label: 'ZIP', description: 'Images plus JSON metadata manifest' },
+];
+
+const bundleName = (images: GeneratedImage[]): string =>
+  images.length === 1 ? exportBaseName(images[0]) : `infographics-${new Date().toISOString().slice(0, 10)}`;
+
+export const exportImages = async (images: GeneratedImage[], format: ExportFormat): Promise<void> => {
+  if (images.length === 0) return;
+
+  switch (format) {
+    case 'png': {
+      // Several PNGs are bundled so the browser does not block a burst of downloads
+      if (images.length > 1) return exportImages(images, 'zip');
+      const bytes = await embedProvenance(images[0]);
+      return downloadBlob(new Blob([bytes], { type: 'image/png' }), `${exportBaseName(images[0])}.png`);
+    }
+    case 'svg': return images.length === 1
+      ? downloadBlob(await exportSvg(images[0]), `${exportBaseName(images[0])}.svg`)
+      : downloadBlob(await exportSvgBundle(images), `${bundleName(images)}-svg.zip`);
+    case 'pdf': return downloadBlob(await exportPdf(images), `${bundleName(images)}.pdf`);
+    case 'pptx': return downloadBlob(await exportPptx(images), `${bundleName(images)}.pptx`);
+    case 'zip': return downloadBlob(await exportZip(images), `${bundleName(images)}.zip`);
+  }
+};
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { jsPDF } from "jspdf";
+import { GeneratedImage } from "../../types";
+import { citationLines, fitInside, imageTitle, loadImageSize, settingsSummary } from "./common";
+
+const MARGIN = 40;
+const LINE_HEIGHT = 14;
+const CANVAS_SCALE = 3; // Canvas pixels per PDF point, so rasterized text stays sharp in print
+
+// jsPDF's built-in Helvetica only covers WinAnsi (Latin-1 plus typographic punctuation). Lines in other scripts (CJK, Devanagari, Arabic, Cyrillic)
+// are drawn by the browser, which has the fonts and shapes them, and placed as images.
+const needsCanvasText = (text: string) => /[^\u0000-\u00ff\u2013\u2014\u2018\u2019\u201c\u201d\u2022\u2026\u20ac]/.test(text);
+const isRtl = (text: string) => /[\u0590-\u08ff]/.test(text);
+
+const canvasFont = (size: number, bold: boolean) => `${bold ? 'bold ' : ''}${size * CANVAS_SCALE}px sans-serif`;
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available for PDF text rendering");
+  return { canvas, ctx };
+};
+
+// Breaks at spaces, or between characters for scripts written without them
+const wrapForCanvas = (text: string, size: number, bold: boolean, maxWidth: number): string[] => {
+  const { ctx } = createContext(1, 1);
+  ctx.font = canvasFont(size, bold);
+  const limit = maxWidth * CANVAS_SCALE;
+  const fits = (candidate: string) => ctx.measureText(candidate).width <= limit;
+  const lines: string[] = [];
+  let line = '';
+  for (const token of text.match(/\S+\s*|\s+/g) || []) {
+    if (fits(line + token)) {
+      line += token;
+      continue;
+    }
+    if (line.trim()) lines.push(line.trimEnd());
+    line = '';
+    if (fits(token)) {
+      line = token.trimStart();
+      continue;
+    }
+    for (const char of Array.from(token)) {
+      if (line && !fits(line + char)) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+};
+
+const wrapText = (doc: jsPDF, text: string, size: number, bold: boolean, maxWidth: number): string[] => {
+  if (needsCanvasText(text)) return wrapForCanvas(text, size, bold, maxWidth);
+  doc.setFont('helvetica', bold ? 'bold' : 'normal');
+  doc.setFontSize(size);
+  return doc.splitTextToSize(text, maxWidth);
+};
+
+// `y` is the text baseline, as with doc.text
+const drawLine = (doc: jsPDF, line: string, x: number, y: number, size: number, bold: boolean, maxWidth: number) => {
+  if (!needsCanvasText(line)) {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.text(line, x, y);
+    return;
+  }
+  const rtl = isRtl(line);
+  const { ctx: measure } = createContext(1, 1);
+  measure.font = canvasFont(size, bold);
+  const width = Math.ceil(Math.min(measure.measureText(line).width, maxWidth * CANVAS_SCALE)) + CANVAS_SCALE;
+  const { canvas, ctx } = createContext(width, Math.ceil(size * 1.3 * CANVAS_SCALE));
+  ctx.font = canvasFont(size, bold);
+  ctx.fillStyle = '#000000';
+  ctx.direction = rtl ? 'rtl' : 'ltr';
+  ctx.textAlign = rtl ? 'right' : 'left';
+  ctx.fillText(line, rtl ? canvas.width : 0, size * CANVAS_SCALE);
+  const widthPt = canvas.width / CANVAS_SCALE;
+  doc.addImage(canvas.toDataURL('image/png'), 'PNG', rtl ? x + maxWidth - widthPt : x, y - size, widthPt, canvas.height / CANVAS_SCALE);
+};
+
+// One page per infographic (orientation follows the image), then an appendix page with its facts and sources
+export const exportPdf = async (images: GeneratedImage[]): Promise<Blob> => {
+  let doc: jsPDF | null = null;
+
+  for (const image of images) {
+    const size = await loadImageSize(image.data);
+    const orientation = size.width >= size.height ? 'landscape' : 'portrait';
+    if (doc) doc.addPage('a4', orientation);
+    else doc = new jsPDF({ orientation, unit: 'pt', format: 'a4' });
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    wrapText(doc, imageTitle(image), 16, true, pageWidth - MARGIN * 2).forEach((line, i) => {
+      drawLine(doc!, line, MARGIN, MARGIN + i * LINE_HEIGHT * 1.6, 16, true, pageWidth - MARGIN * 2);
+    });
+
+    const fitted = fitInside(size.width, size.height, pageWidth - MARGIN * 2, pageHeight - MARGIN * 3);
+    doc.addImage(image.data, 'PNG', (pageWidth - fitted.width) / 2, MARGIN * 1.75, fitted.width, fitted.height);
+
+    addAppendix(doc, image);
+  }
+
+  if (!doc) throw new Error("Nothing to export.");
+  return doc.output('blob');
+};
+
+const addAppendix = (doc: jsPDF, image: GeneratedImage) => {
+  doc.addPage('a4', 'portrait');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const write = (text: string, options: { bold?: boolean; size?: number; gap?: number } = {}) => {
+    const size = options.size || 10;
+    const bold = options.bold ?? false;
+    for (const line of wrapText(doc, text, size, bold, textWidth)) {
+      if (y > pageHeight - MARGIN) {
+        doc.addPage('a4', 'portrait');
+        y = MARGIN;
+      }
+      drawLine(doc, line, MARGIN, y, size, bold, textWidth);
+      y += LINE_HEIGHT * (size / 10);
+    }
+    y += options.gap ?? 4;
+  };
+
+  const { facts, sources } = citationLines(image);
+  write(`Appendix: ${imageTitle(image)}`, { bold: true, size: 14, gap: 8 });
+  write(`Topic: ${image.prompt}`);
+  write(`Generated ${new Date(image.timestamp).toLocaleString()}${settingsSummary(image) ? ` · ${settingsSummary(image)}` : ''}`, { gap: 12 });
+
+  if (image.verification) {
+    write(image.verification.isAccurate ? 'Verification: passed' : image.verification.unverified ? 'Verification: not checked' : `Verification: issues found — ${image.verification.critique}`, { gap: 12 });
+  }
+
+  if (image.brandCheck) {
+    const { kitName, isOnBrand, offBrandShare } = image.brandCheck;
+    write(`Brand kit "${kitName}": ${isOnBrand ? 'on brand' : 'off brand'} (${Math.round(offBrandShare * 100)}% off-palette)`, { gap: 12 });
+  }
+
+  if (facts.length > 0) {
+    write('Facts', { bold: true, size: 12 });
+    facts.forEach(fact => write(fact));
+    y += 8;
+  }
+  if (sources.length > 0) {
+    write('Sources', { bold: true, size: 12 });
+    sources.forEach(source => write(source));
+  }
+  if (facts.length === 0 && sources.length === 0) {
+    write('No research is stored with this infographic.');
+  }
+};
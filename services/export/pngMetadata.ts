@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage } from "../../types";
+import { createImageId } from "../pipeline";
+
+// Provenance lives in an iTXt chunk as JSON (UTF-8, so non-Latin topics survive); a few standard
+// tEXt keywords are written alongside so ordinary image viewers show something useful too.
+
+export const PROVENANCE_KEYWORD = 'infogenius:provenance';
+export const PROVENANCE_VERSION = 1;
+
+const TEXT_KEYWORDS = ['Title', 'Description', 'Software', 'Creation Time', 'Source'];
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export interface PngProvenance {
+  version: number;
+  software: string;
+  exportedAt: string;
+  image: Omit<GeneratedImage, 'data'>;
+  // Flat copies of the most useful fields for tools that do not understand the full record
+  topic: string;
+  facts: string[];
+  sourceUrls: string[];
+}
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!isPng(bytes)) throw new Error("This file is not a PNG image.");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const writeChunks = (chunks: PngChunk[]): Uint8Array => {
+  const total = PNG_SIGNATURE.length + chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    const typeBytes = Uint8Array.from(chunk.type, ch => ch.charCodeAt(0));
+    view.setUint32(offset, chunk.data.length);
+    out.set(typeBytes, offset + 4);
+    out.set(chunk.data, offset + 8);
+    const crcInput = new Uint8Array(4 + chunk.data.length);
+    crcInput.set(typeBytes, 0);
+    crcInput.set(chunk.data, 4);
+    view.setUint32(offset + 8 + chunk.data.length, crc32(crcInput));
+    offset += 12 + chunk.data.length;
+  }
+  return out;
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+// tEXt is Latin-1 only; characters outside it are replaced rather than corrupting the chunk
+const latin1 = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0) <= 0xff ? ch.charCodeAt(0) : 0x3f);
+
+const textChunk = (keyword: string, text: string): PngChunk => ({
+  type: 'tEXt',
+  data: concat(latin1(keyword), new Uint8Array([0]), latin1(text)),
+});
+
+// keyword \0, compression flag 0, method 0, empty language tag \0, empty translated keyword \0, UTF-8 text
+const itxtChunk = (keyword: string, text: string): PngChunk => ({
+  type: 'iTXt',
+  data: concat(latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(text)),
+});
+
+const textKeyword = (data: Uint8Array): string => {
+  const end = data.indexOf(0);
+  return new TextDecoder('latin1').decode(data.subarray(0, end < 0 ? data.length : end));
+};
+
+const parseItxt = (data: Uint8Array): { keyword: string; text: string } | null => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 0) return null;
+  const keyword = textKeyword(data);
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+  // Only the uncompressed form is written by this app
+  if (compressed || translatedEnd < 0) return null;
+  return { keyword, text: new TextDecoder().decode(data.subarray(translatedEnd + 1)) };
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.replace(/^data:[^;]+;base64,/, ''));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+// The image model does not always return PNG bytes even though the data URL says so
+const ensurePngBytes = async (dataUrl: string): Promise<Uint8Array> => {
+  const bytes = dataUrlToBytes(dataUrl);
+  if (isPng(bytes)) return bytes;
+
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error("Could not decode the image for export."));
+    img.src = dataUrl;
+  });
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  canvas.getContext('2d')!.drawImage(img, 0, 0);
+  return dataUrlToBytes(canvas.toDataURL('image/png'));
+};
+
+export const buildProvenance = (image: GeneratedImage): PngProvenance => {
+  const { data, ...metadata } = image;
+  return {
+    version: PROVENANCE_VERSION,
+    software: 'InfoGenius',
+    exportedAt: new Date().toISOString(),
+    image: metadata,
+    topic: image.prompt,
+    facts: image.research?.facts.map(fact => fact.text) || [],
+    sourceUrls: image.research?.searchResults.map(source => source.url) || [],
+  };
+};
+
+const isOwnChunk = (chunk: PngChunk): boolean => {
+  if (chunk.type === 'tEXt') return TEXT_KEYWORDS.includes(textKeyword(chunk.data));
+  return chunk.type === 'iTXt' && parseItxt(chunk.data)?.keyword === PROVENANCE_KEYWORD;
+};
+
+// Returns PNG bytes with provenance chunks inserted after IHDR; chunks from an earlier export are replaced
+export const embedProvenance = async (image: GeneratedImage): Promise<Uint8Array> => {
+  const provenance = buildProvenance(image);
+  const chunks = readChunks(await ensurePngBytes(image.data)).filter(chunk => !isOwnChunk(chunk));
+
+  const models = image.models ? `${image.models.provider}: ${image.models.textModel} / ${image.models.imageModel}` : '';
+  const added: PngChunk[] = [
+    textChunk('Title', image.research?.title || image.prompt),
+    textChunk('Description', image.prompt),
+    textChunk('Software', 'InfoGenius'),
+    textChunk('Creation Time', new Date(image.timestamp).toUTCString()),
+    ...(models ? [textChunk('Source', models)] : []),
+    itxtChunk(PROVENANCE_KEYWORD, JSON.stringify(provenance)),
+  ];
+
+  const ihdrIndex = chunks.findIndex(chunk => chunk.type === 'IHDR');
+  chunks.splice(ihdrIndex + 1, 0, ...added);
+  return writeChunks(chunks);
+};
+
+export const readProvenance = (bytes: Uint8Array): PngProvenance | null => {
+  for (const chunk of readChunks(bytes)) {
+    if (chunk.type !== 'iTXt') continue;
+    const entry = parseItxt(chunk.data);
+    if (entry?.keyword !== PROVENANCE_KEYWORD) continue;
+    try {
+      const parsed = JSON.parse(entry.text);
+      return parsed && parsed.image && typeof parsed.image.prompt === 'string' ? parsed as PngProvenance : null;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
+};
+
+// Rebuilds an archive entry from a PNG exported by this app. An id that is already taken locally (e.g. a
+// teammate's export) gets a fresh id, so the import never overwrites an existing entry.
+export const importProvenancePng = async (file: File, isIdTaken: (id: string) => Promise<boolean>): Promise<GeneratedImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const provenance = readProvenance(bytes);
+  if (!provenance) {
+    throw new Error(`"${file.name}" has no InfoGenius provenance metadata.`);
+  }
+  const image: GeneratedImage = { ...provenance.image, data: bytesToDataUrl(bytes) };
+  if (!(await isIdTaken(image.id))) return image;
+  return { ...image, id: createImageId(), importedFromId: image.id };
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import PptxGenJS from "pptxgenjs";
+import { GeneratedImage } from "../../types";
+import { citationLines, fitInside, imageTitle, loadImageSize, settingsSummary } from "./common";
+
+// 16:9 layout, in inches
+const SLIDE_WIDTH = 13.333;
+const SLIDE_HEIGHT = 7.5;
+const TITLE_HEIGHT = 0.8;
+const PADDING = 0.3;
+
+// One slide per infographic; facts and citations go in the speaker notes so the slide stays clean
+export const exportPptx = async (images: GeneratedImage[]): Promise<Blob> => {
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+
+  for (const image of images) {
+    const slide = pptx.addSlide();
+    slide.addText(imageTitle(image), {
+      x: PADDING, y: PADDING / 2, w: SLIDE_WIDTH - PADDING * 2, h: TITLE_HEIGHT,
+      fontSize: 24, bold: true, fontFace: 'Arial', color: '1E293B',
+    });
+
+    const size = await loadImageSize(image.data);
+    const fitted = fitInside(size.width, size.height, SLIDE_WIDTH - PADDING * 2, SLIDE_HEIGHT - TITLE_HEIGHT - PADDING * 2);
+    slide.addImage({
+      data: image.data,
+      x: (SLIDE_WIDTH - fitted.width) / 2,
+      y: TITLE_HEIGHT + PADDING,
+      w: fitted.width,
+      h: fitted.height,
+    });
+
+    const { facts, sources } = citationLines(image);
+    slide.addNotes([
+      `Topic: ${image.prompt}`,
+      settingsSummary(image),
+      facts.length > 0 ? `\nFacts:\n${facts.join('\n')}` : '',
+      sources.length > 0 ? `\nSources:\n${sources.join('\n')}` : '',
+    ].filter(Boolean).join('\n'));
+  }
+
+  return await pptx.write({ outputType: 'blob' }) as Blob;
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from "jszip";
+import { GeneratedImage } from "../../types";
+import { exportBaseName, imageTitle, loadImageSize } from "./common";
+import { buildProvenance, bytesToDataUrl, embedProvenance, PROVENANCE_KEYWORD } from "./pngMetadata";
+
+const PROVENANCE_NAMESPACE = 'urn:infogenius:provenance';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The PNG (with its own provenance chunks) is embedded as-is, so extracting it from the SVG loses nothing.
+// The same provenance JSON is repeated in <metadata> for tools that read SVG but not PNG chunks.
+export const buildSvg = async (image: GeneratedImage): Promise<string> => {
+  const { width, height } = await loadImageSize(image.data);
+  const png = bytesToDataUrl(await embedProvenance(image));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <title>${escapeXml(imageTitle(image))}</title>`,
+    `  <desc>${escapeXml(image.prompt)}</desc>`,
+    `  <metadata>`,
+    `    <ig:provenance xmlns:ig="${PROVENANCE_NAMESPACE}" keyword="${PROVENANCE_KEYWORD}">${escapeXml(JSON.stringify(buildProvenance(image)))}</ig:provenance>`,
+    `  </metadata>`,
+    `  <image width="${width}" height="${height}" href="${png}" xlink:href="${png}" />`,
+    '</svg>',
+  ].join('\n');
+};
+
+export const exportSvg = async (image: GeneratedImage): Promise<Blob> =>
+  new Blob([await buildSvg(image)], { type: 'image/svg+xml' });
+
+// One SVG per image, zipped so the browser does not block a burst of downloads
+export const exportSvgBundle = async (images: GeneratedImage[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  for (const image of images) {
+    let name = `${exportBaseName(image)}.svg`;
+    if (usedNames.has(name)) name = `${exportBaseName(image)}-${image.id}.svg`;
+    usedNames.add(name);
+    zip.file(name, await buildSvg(image));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
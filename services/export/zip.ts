@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from "jszip";
+import { GeneratedImage } from "../../types";
+import { exportBaseName } from "./common";
+import { embedProvenance } from "./pngMetadata";
+
+export const MANIFEST_VERSION = 1;
+
+// Everything about an image except its pixels; `file` points at the image inside the archive
+export const buildManifestEntry = (image: GeneratedImage, file: string) => {
+  const { data, ...metadata } = image;
+  return { file, ...metadata };
+};
+
+export const exportZip = async (images: GeneratedImage[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  const entries: ReturnType<typeof buildManifestEntry>[] = [];
+  for (const image of images) {
+    let name = `${exportBaseName(image)}.png`;
+    // Variants and re-runs of the same topic share a title
+    if (usedNames.has(name)) name = `${exportBaseName(image)}-${image.id}.png`;
+    usedNames.add(name);
+    zip.file(`images/${name}`, await embedProvenance(image));
+    entries.push(buildManifestEntry(image, `images/${name}`));
+  }
+
+  zip.file('manifest.json', JSON.stringify({
+    version: MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    images: entries,
+  }, null, 2));
+
+  return zip.generateAsync({ type: 'blob' });
+};
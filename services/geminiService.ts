@@ -3,20 +3,23 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI } from "@google/genai";
-import { AspectRatio, ComplexityLevel, VisualStyle, ResearchResult, SearchResultItem, Language, ImageResolution } from "../types";
+import { Type } from "@google/genai";
+import { AspectRatio, ComplexityLevel, VisualStyle, ResearchResult, ResearchFact, ResearchSection, KeyNumber, SearchResultItem, Language, ImageResolution, VerificationIssue, VerificationIssueType, VerificationResult, VerificationReport, ReferenceImage, ImageContextRole, EditRegion, BrandKit, ResearchProgress, SeriesStyleGuide } from "../types";
+import { ResearchParseError } from "./errors";
+import { getProvider } from "./providers";
+import { isCustomPresetId, resolvePresetPrompt } from "./presets";
+import { describeBrandKit } from "./brandKit";
+import { buildRegionMask, compositeRegion, getImageSize, toPixelRect } from "./imageRegion";
+import { TextGroundingSupport } from "./providers/provider";
+import { trackUsage, UsageMeter } from "./usage";
 
-// Create a fresh client for every request to ensure the latest API key from process.env.API_KEY is used
-const getAi = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
-
-// Updated to use 'gemini-3-pro-preview' for complex text and 'gemini-3-pro-image-preview' for high-quality image operations as requested
-const TEXT_MODEL = 'gemini-3-pro-preview';
-const IMAGE_MODEL = 'gemini-3-pro-image-preview';
-const EDIT_MODEL = 'gemini-3-pro-image-preview';
+export const MAX_FIX_ROUNDS = 2;
 
 const getLevelInstruction = (level: ComplexityLevel): string => {
+  if (isCustomPresetId(level)) {
+    const custom = resolvePresetPrompt(level);
+    return custom ? `Target Audience: ${custom}` : "Target Audience: General Public. Style: Clear and engaging.";
+  }
   switch (level) {
     case 'Elementary':
       return "Target Audience: Elementary School (Ages 6-10). Style: Bright, simple, fun. Use large clear icons and very minimal text labels.";
@@ -32,6 +35,10 @@ const getLevelInstruction = (level: ComplexityLevel): string => {
 };
 
 const getStyleInstruction = (style: VisualStyle): string => {
+  if (isCustomPresetId(style)) {
+    const custom = resolvePresetPrompt(style);
+    return custom ? `Aesthetic: ${custom}` : "Aesthetic: High-quality digital scientific illustration. Clean, modern, highly detailed.";
+  }
   switch (style) {
     case 'Minimalist': return "Aesthetic: Bauhaus Minimalist. Flat vector art, limited color palette (2-3 colors), reliance on negative space and simple geometric shapes.";
     case 'Realistic': return "Aesthetic: Photorealistic Composite. Cinematic lighting, 8k resolution, highly detailed textures. Looks like a photograph.";
@@ -44,12 +51,194 @@ const getStyleInstruction = (style: VisualStyle): string => {
   }
 };
 
+const REFERENCE_ROLE_INSTRUCTIONS: Record<ImageContextRole, string> = {
+  layout: "LAYOUT REFERENCE. Follow its arrangement of panels, reading order and hierarchy. Do not copy its text or colors.",
+  style: "STYLE REFERENCE. Match its color palette, typography feel and illustration style. Do not copy its layout or content.",
+  asset: "REQUIRED ASSET. Reproduce this element faithfully and visibly in the infographic (e.g. a logo or existing chart). Do not redraw or alter it.",
+};
+
+// Images are attached in order, so "Image n" in the prompt matches the n-th inline part
+const describeReferenceImages = (references: ReferenceImage[]): string =>
+  references.map((ref, i) => `Image ${i + 1} ("${ref.name}"): ${REFERENCE_ROLE_INSTRUCTIONS[ref.role]}`).join('\n');
+
+const RESEARCH_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    facts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          sourceIndices: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+        },
+        required: ['text', 'sourceIndices']
+      }
+    },
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          heading: { type: Type.STRING },
+          summary: { type: Type.STRING }
+        },
+        required: ['heading', 'summary']
+      }
+    },
+    keyNumbers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          value: { type: Type.STRING }
+        },
+        required: ['label', 'value']
+      }
+    },
+    sources: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          url: { type: Type.STRING }
+        },
+        required: ['title', 'url']
+      }
+    },
+    imagePrompt: { type: Type.STRING }
+  },
+  required: ['title', 'facts', 'sections', 'keyNumbers', 'sources', 'imagePrompt']
+};
+
+interface ParsedResearch {
+  title: string;
+  facts: ResearchFact[];
+  sections: ResearchSection[];
+  keyNumbers: KeyNumber[];
+  sources: SearchResultItem[];
+  imagePrompt: string;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// Shared by every structured response; tolerates a fenced code block around the JSON
+const parseJsonObject = (text: string, subject: string): Record<string, unknown> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch {
+    throw new ResearchParseError('invalid_json', `${subject} was not valid JSON.`, text);
+  }
+  if (!isRecord(raw)) {
+    throw new ResearchParseError('invalid_shape', `${subject} was not a JSON object.`, text);
+  }
+  return raw;
+};
+
+// Validates the structured research response instead of trusting the schema blindly
+const parseResearchResponse = (text: string): ParsedResearch => {
+  if (!text.trim()) {
+    throw new ResearchParseError('empty_response', "The research model returned an empty response.", text);
+  }
+
+  const raw = parseJsonObject(text, "The research response");
+  if (!Array.isArray(raw.facts)) {
+    throw new ResearchParseError('invalid_shape', "The research response is missing the facts list.", text);
+  }
+
+  const facts: ResearchFact[] = asArray(raw.facts)
+    .filter(isRecord)
+    .flatMap(f => isString(f.text) && f.text.trim() ? [{
+      text: f.text.trim(),
+      sourceIndices: asArray(f.sourceIndices).filter((i): i is number => typeof i === 'number' && Number.isInteger(i)),
+      groundingIndices: []
+    }] : []);
+  if (facts.length === 0) {
+    throw new ResearchParseError('no_facts', "The research response did not contain any facts.", text);
+  }
+
+  if (!isString(raw.imagePrompt) || !raw.imagePrompt.trim()) {
+    throw new ResearchParseError('no_image_prompt', "The research response did not contain an image prompt.", text);
+  }
+
+  return {
+    title: isString(raw.title) ? raw.title.trim() : '',
+    facts,
+    sections: asArray(raw.sections)
+      .filter(isRecord)
+      .flatMap(s => isString(s.heading) ? [{ heading: s.heading, summary: isString(s.summary) ? s.summary : '' }] : []),
+    keyNumbers: asArray(raw.keyNumbers)
+      .filter(isRecord)
+      .flatMap(k => isString(k.label) && isString(k.value) ? [{ label: k.label, value: k.value }] : []),
+    sources: asArray(raw.sources)
+      .filter(isRecord)
+      .flatMap(src => isString(src.url) ? [{ title: isString(src.title) && src.title ? src.title : src.url, url: src.url }] : []),
+    imagePrompt: raw.imagePrompt.trim()
+  };
+};
+
+const normalizeForMatch = (text: string): string => text.toLowerCase().replace(/\\"/g, '"').replace(/\s+/g, ' ').trim();
+
+// Supports reference spans of the raw (JSON) response text, so a support backs a fact when their texts overlap
+const findGroundingIndices = (factText: string, supports: TextGroundingSupport[], chunkToResultIndex: number[]): number[] => {
+  const fact = normalizeForMatch(factText);
+  const indices = new Set<number>();
+
+  supports.forEach(support => {
+    const segment = normalizeForMatch(support.text);
+    if (segment.length < 12) return;
+    if (!segment.includes(fact) && !fact.includes(segment)) return;
+    support.chunkIndices.forEach(chunkIndex => {
+      const resultIndex = chunkToResultIndex[chunkIndex];
+      if (resultIndex !== undefined && resultIndex >= 0) indices.add(resultIndex);
+    });
+  });
+
+  return Array.from(indices).sort((a, b) => a - b);
+};
+
+export interface ResearchStreamOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ResearchProgress) => void;
+  usage?: UsageMeter;
+}
+
+// Pulls the fact texts that are already complete out of a partial JSON response
+const extractStreamedFacts = (partial: string): string[] => {
+  const start = partial.indexOf('"facts"');
+  if (start === -1) return [];
+  const end = partial.indexOf('"sections"', start);
+  const region = partial.slice(start, end === -1 ? undefined : end);
+  const texts: string[] = [];
+  const pattern = /"text"\s*:\s*("(?:[^"\\]|\\.)*")/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(region))) {
+    try {
+      texts.push(JSON.parse(match[1]));
+    } catch {
+      // Malformed escape; the final parse will report it if it persists
+    }
+  }
+  return texts;
+};
+
 export const researchTopicForPrompt = async (
   topic: string, 
   level: ComplexityLevel, 
   style: VisualStyle,
   language: Language,
-  context?: string | null
+  context?: string | null,
+  references: ReferenceImage[] = [],
+  brandKit?: BrandKit,
+  stream: ResearchStreamOptions = {}
 ): Promise<ResearchResult> => {
   
   const levelInstr = getLevelInstruction(level);
@@ -76,107 +265,457 @@ export const researchTopicForPrompt = async (
     ${context}
     --- END CONTEXT ---
     ` : ''}
+    ${references.length > 0 ? `
+    REFERENCE IMAGES:
+    The user attached the following images. Describe how each one shapes the composition in "imagePrompt", referring to them as "Image 1", "Image 2", etc.
+    ${describeReferenceImages(references)}
+    ` : ''}
+    ${brandKit ? `
+    ${describeBrandKit(brandKit)}
+    Spell out these brand constraints explicitly in "imagePrompt".
+    ` : ''}
     
-    Please provide your response in the following format EXACTLY:
-    
-    FACTS:
-    - [Fact 1]
-    - [Fact 2]
-    - [Fact 3]
-    
-    IMAGE_PROMPT:
-    [A highly detailed image generation prompt describing the visual composition, colors, and layout for the infographic. Do not include citations in the prompt.]
+    Respond with JSON that matches the provided schema:
+    - "title": a short headline for the infographic, in ${language}.
+    - "facts": 5 to 8 of the most important, verifiable facts, in ${language}. For each fact, list in "sourceIndices" the zero-based positions in "sources" that support it.
+    - "sections": the panels or regions the infographic should be divided into, each with a heading and a one-sentence summary.
+    - "keyNumbers": the figures, dates or quantities that should be displayed prominently.
+    - "sources": the web pages or user-provided sources you relied on, with title and URL.
+    - "imagePrompt": a highly detailed image generation prompt describing the visual composition, colors, and layout for the infographic. Do not include citations in the prompt.
   `;
 
-  const response = await getAi().models.generateContent({
-    model: TEXT_MODEL,
-    contents: systemPrompt,
-    config: {
-      tools: [{ googleSearch: {} }],
-    },
+  const response = await getProvider().generateText({
+    task: 'research',
+    prompt: systemPrompt,
+    images: references.map(ref => ref.data),
+    useSearch: true,
+    responseSchema: RESEARCH_SCHEMA,
+    signal: stream.signal,
+    onUsage: trackUsage('research', stream.usage),
+    onProgress: stream.onProgress && ((progress) => stream.onProgress!({
+      facts: extractStreamedFacts(progress.text).map(text => ({ text, sourceIndices: [], groundingIndices: [] })),
+      sources: progress.sources,
+      outputTokens: progress.outputTokens
+    })),
   });
 
-  const text = response.text || "";
-  
-  // Parse Facts
-  const factsMatch = text.match(/FACTS:\s*([\s\S]*?)(?=IMAGE_PROMPT:|$)/i);
-  const factsRaw = factsMatch ? factsMatch[1].trim() : "";
-  const facts = factsRaw.split('\n')
-    .map(f => f.replace(/^-\s*/, '').trim())
-    .filter(f => f.length > 0)
-    .slice(0, 5);
-
-  // Parse Prompt
-  const promptMatch = text.match(/IMAGE_PROMPT:\s*([\s\S]*?)$/i);
-  const imagePrompt = promptMatch ? promptMatch[1].trim() : `Create a detailed infographic about ${topic}. ${levelInstr} ${styleInstr}`;
+  const parsed = parseResearchResponse(response.text);
 
   // Extract Grounding (Search Results)
-  const searchResults: SearchResultItem[] = [];
-  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-  
-  if (chunks) {
-    chunks.forEach(chunk => {
-      if (chunk.web?.uri && chunk.web?.title) {
-        searchResults.push({
-          title: chunk.web.title,
-          url: chunk.web.uri
-        });
-      }
-    });
-  }
+  const chunks = response.groundingChunks;
+  const searchResults: SearchResultItem[] = chunks.filter((chunk): chunk is SearchResultItem => chunk !== null);
 
   // Remove duplicates based on URL
   const uniqueResults = Array.from(new Map(searchResults.map(item => [item.url, item])).values());
 
+  // Grounding chunk index -> position in the deduplicated results
+  const chunkToResultIndex = chunks.map(chunk => chunk ? uniqueResults.findIndex(result => result.url === chunk.url) : -1);
+
+  // Re-point fact source indices from the model's own source list onto the merged search results
+  const sourceIndexMap = parsed.sources.map(source => {
+    let index = uniqueResults.findIndex(result => result.url === source.url);
+    if (index === -1 && source.url) {
+      uniqueResults.push(source);
+      index = uniqueResults.length - 1;
+    }
+    return index;
+  });
+
+  const facts: ResearchFact[] = parsed.facts.map(fact => ({
+    text: fact.text,
+    sourceIndices: Array.from(new Set(
+      fact.sourceIndices
+        .map(i => sourceIndexMap[i])
+        .filter((i): i is number => i !== undefined && i >= 0)
+    )),
+    groundingIndices: findGroundingIndices(fact.text, response.groundingSupports, chunkToResultIndex)
+  }));
+
   return {
-    imagePrompt: imagePrompt,
+    title: parsed.title,
+    imagePrompt: parsed.imagePrompt,
     facts: facts,
+    sections: parsed.sections,
+    keyNumbers: parsed.keyNumbers,
     searchResults: uniqueResults
   };
 };
 
-export const generateInfographicImage = async (prompt: string, aspectRatio: AspectRatio, resolution: ImageResolution): Promise<string> => {
-  // Use Gemini 3 Pro Image Preview for generation
-  const response = await getAi().models.generateContent({
-    model: IMAGE_MODEL,
-    contents: {
-      parts: [{ text: prompt }]
+const TRANSLATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    facts: { type: Type.ARRAY, items: { type: Type.STRING } },
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          heading: { type: Type.STRING },
+          summary: { type: Type.STRING }
+        },
+        required: ['heading', 'summary']
+      }
     },
-    config: {
-      imageConfig: {
-        aspectRatio: aspectRatio,
-        imageSize: resolution
+    keyNumberLabels: { type: Type.ARRAY, items: { type: Type.STRING } },
+    imagePrompt: { type: Type.STRING }
+  },
+  required: ['title', 'facts', 'sections', 'keyNumberLabels', 'imagePrompt']
+};
+
+// Translates an existing research result so language variants share the same facts and sources
+export const translateResearch = async (research: ResearchResult, targetLanguage: Language, signal?: AbortSignal, usage?: UsageMeter): Promise<ResearchResult> => {
+  const source = {
+    title: research.title,
+    facts: research.facts.map(f => f.text),
+    sections: research.sections,
+    keyNumberLabels: research.keyNumbers.map(k => k.label),
+    imagePrompt: research.imagePrompt
+  };
+
+  const prompt = `
+    Translate the following infographic plan into ${targetLanguage}.
+    Keep every fact, number, date, name and unit exactly as it is; only change the language.
+    Return the same number of facts, sections and key number labels, in the same order.
+    In "imagePrompt", keep the visual description but require all text rendered in the image to be in ${targetLanguage}.
+
+    ${JSON.stringify(source, null, 2)}
+  `;
+
+  const response = await getProvider().generateText({
+    task: 'translate',
+    prompt,
+    responseSchema: TRANSLATION_SCHEMA,
+    signal,
+    onUsage: trackUsage('translate', usage),
+  });
+
+  const text = response.text;
+  const raw = parseJsonObject(text, "The translation response");
+  const facts = asArray(raw.facts);
+  if (facts.length !== research.facts.length || !isString(raw.imagePrompt)) {
+    throw new ResearchParseError('invalid_shape', "The translation did not preserve the original facts.", text);
+  }
+
+  const sections = asArray(raw.sections);
+  const labels = asArray(raw.keyNumberLabels);
+  // Anything missing or malformed keeps the original wording
+  const stringOr = (value: unknown, fallback: string): string => isString(value) ? value : fallback;
+
+  return {
+    ...research,
+    title: stringOr(raw.title, research.title),
+    facts: research.facts.map((fact, i) => ({ ...fact, text: stringOr(facts[i], fact.text) })),
+    sections: research.sections.map((section, i) => {
+      const translated = sections[i];
+      return isRecord(translated)
+        ? { heading: stringOr(translated.heading, section.heading), summary: stringOr(translated.summary, section.summary) }
+        : section;
+    }),
+    keyNumbers: research.keyNumbers.map((keyNumber, i) => ({ ...keyNumber, label: stringOr(labels[i], keyNumber.label) })),
+    imagePrompt: raw.imagePrompt
+  };
+};
+
+const SERIES_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    styleGuide: {
+      type: Type.OBJECT,
+      properties: {
+        palette: { type: Type.ARRAY, items: { type: Type.STRING } },
+        typography: { type: Type.STRING },
+        motifs: { type: Type.ARRAY, items: { type: Type.STRING } },
+        description: { type: Type.STRING }
+      },
+      required: ['palette', 'typography', 'motifs', 'description']
+    },
+    panels: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          factIndices: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+          imagePrompt: { type: Type.STRING }
+        },
+        required: ['title', 'factIndices', 'imagePrompt']
       }
     }
+  },
+  required: ['title', 'styleGuide', 'panels']
+};
+
+export interface SeriesPlan {
+  title: string;
+  styleGuide: SeriesStyleGuide;
+  panels: { title: string; facts: ResearchFact[]; imagePrompt: string }[];
+}
+
+// Splits one research result into an ordered outline of panels that share a style guide.
+// Panels reference facts by index, so every panel keeps the original citations.
+export const planInfographicSeries = async (
+  research: ResearchResult,
+  panelCount: number,
+  level: ComplexityLevel,
+  style: VisualStyle,
+  language: Language,
+  brandKit?: BrandKit,
+  signal?: AbortSignal,
+  usage?: UsageMeter
+): Promise<SeriesPlan> => {
+  const prompt = `
+    You are planning a series of ${panelCount} infographics that together explain: "${research.title}".
+    Split the researched material below into exactly ${panelCount} panels, in the order a reader should see them.
+
+    Context:
+    ${getLevelInstruction(level)}
+    ${getStyleInstruction(style)}
+    Language: ${language}
+    ${brandKit ? `
+    ${describeBrandKit(brandKit)}
+    The style guide palette must use only the brand colors.
+    ` : ''}
+
+    Researched facts (zero-based):
+    ${research.facts.map((fact, i) => `${i}. ${fact.text}`).join('\n    ')}
+
+    Sections: ${research.sections.map(section => `${section.heading} (${section.summary})`).join('; ') || 'none'}
+    Key numbers: ${research.keyNumbers.map(k => `${k.label}: ${k.value}`).join('; ') || 'none'}
+    Original single-image composition: ${research.imagePrompt}
+
+    Respond with JSON that matches the provided schema:
+    - "title": a short headline for the whole series, in ${language}.
+    - "styleGuide": the look every panel shares. "palette" is 3 to 6 hex colors like #1a2b3c, "typography" describes the fonts,
+      "motifs" lists 2 to 4 recurring visual elements that appear on every panel, and "description" is one paragraph of art direction.
+    - "panels": exactly ${panelCount} panels. Each has a "title" in ${language}, "factIndices" listing the facts it presents
+      (every fact should appear on at least one panel), and "imagePrompt", a detailed image generation prompt for that panel alone.
+      Describe only the panel's own content and layout in "imagePrompt"; the style guide is added separately.
+  `;
+
+  const response = await getProvider().generateText({
+    task: 'series',
+    prompt,
+    responseSchema: SERIES_SCHEMA,
+    signal,
+    onUsage: trackUsage('series', usage),
+  });
+
+  const text = response.text;
+  const raw = parseJsonObject(text, "The series plan");
+
+  const panels = asArray(raw.panels)
+    .filter(isRecord)
+    .flatMap(p => isString(p.imagePrompt) && p.imagePrompt.trim() ? [{
+      title: isString(p.title) ? p.title.trim() : '',
+      facts: asArray(p.factIndices)
+        .filter((index): index is number => typeof index === 'number' && Number.isInteger(index) && research.facts[index] !== undefined)
+        .map(index => research.facts[index]),
+      imagePrompt: p.imagePrompt.trim()
+    }] : [])
+    .map((panel, i) => ({ ...panel, title: panel.title || `Panel ${i + 1}` }));
+  if (panels.length === 0) {
+    throw new ResearchParseError('invalid_shape', "The series plan did not contain any panels.", text);
+  }
+
+  const guide = isRecord(raw.styleGuide) ? raw.styleGuide : {};
+  const strings = (value: unknown): string[] => Array.isArray(value) ? value.filter(isString).map(v => v.trim()).filter(Boolean) : [];
+
+  return {
+    title: isString(raw.title) && raw.title.trim() ? raw.title.trim() : research.title,
+    styleGuide: {
+      palette: strings(guide.palette).filter(color => /^#[0-9a-f]{6}$/i.test(color)).map(color => color.toLowerCase()),
+      typography: isString(guide.typography) ? guide.typography.trim() : '',
+      motifs: strings(guide.motifs),
+      description: isString(guide.description) ? guide.description.trim() : ''
+    },
+    panels
+  };
+};
+
+// Condenses one chunk of an oversized context document. Plain text in, plain text out.
+export const summarizeContext = async (sourceName: string, chunk: string, targetTokens: number): Promise<string> => {
+  const prompt = `
+    Summarize the following excerpt from "${sourceName}" for use as research context for an infographic.
+    Keep every number, date, name, statistic and table value that could appear in the infographic.
+    Drop boilerplate, repetition and navigation text. Use short markdown bullet points grouped under headings.
+    Stay under roughly ${targetTokens} tokens.
+
+    ---
+    ${chunk}
+  `;
+
+  const response = await getProvider().generateText({ task: 'summarize', prompt, onUsage: trackUsage('summarize') });
+  return response.text.trim();
+};
+
+export const generateInfographicImage = async (
+  prompt: string,
+  aspectRatio: AspectRatio,
+  resolution: ImageResolution,
+  references: ReferenceImage[] = [],
+  brandKit?: BrandKit,
+  signal?: AbortSignal,
+  usage?: UsageMeter
+): Promise<string> => {
+  // Repeated here because the research plan may paraphrase or drop brand rules
+  const brandedPrompt = brandKit ? `${prompt}\n\n${describeBrandKit(brandKit)}` : prompt;
+  const onUsage = trackUsage('generate', usage, resolution);
+  if (references.length === 0) {
+    return getProvider().generateImage({ prompt: brandedPrompt, aspectRatio, resolution, signal, onUsage });
+  }
+  return getProvider().generateImage({
+    prompt: `${brandedPrompt}\n\nThe attached images are references:\n${describeReferenceImages(references)}`,
+    aspectRatio,
+    resolution,
+    images: references.map(ref => ref.data),
+    signal,
+    onUsage,
   });
+};
 
-  // Fix: Iterate through parts to find the image part, do not assume it is the first part.
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData && part.inlineData.data) {
-      return `data:image/png;base64,${part.inlineData.data}`;
+const VERIFICATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    isAccurate: { type: Type.BOOLEAN },
+    critique: { type: Type.STRING },
+    issues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ['spelling', 'number', 'missing_fact', 'other'] },
+          description: { type: Type.STRING }
+        },
+        required: ['type', 'description']
+      }
     }
+  },
+  required: ['isAccurate', 'critique', 'issues']
+};
+
+const VERIFY_ATTEMPTS = 2;
+const VERIFICATION_ISSUE_TYPES: VerificationIssueType[] = ['spelling', 'number', 'missing_fact', 'other'];
+
+const isIssueType = (value: unknown): value is VerificationIssueType =>
+  VERIFICATION_ISSUE_TYPES.includes(value as VerificationIssueType);
+
+// Null when the response is not a verification report at all
+const parseVerificationResponse = (text: string): VerificationResult | null => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = parseJsonObject(text, "The verification response");
+  } catch (e) {
+    console.error("Failed to parse verification response", e);
+    return null;
   }
-  throw new Error("Failed to generate image");
+  if (typeof raw.isAccurate !== 'boolean') return null;
+
+  const issues: VerificationIssue[] = asArray(raw.issues)
+    .filter(isRecord)
+    .filter(issue => isString(issue.description) && issue.description.trim())
+    .map(issue => ({ type: isIssueType(issue.type) ? issue.type : 'other', description: String(issue.description).trim() }));
+  return {
+    isAccurate: raw.isAccurate && issues.length === 0,
+    critique: isString(raw.critique) ? raw.critique : '',
+    issues
+  };
 };
 
 export const verifyInfographicAccuracy = async (
   imageBase64: string, 
   topic: string,
+  facts: string[],
   level: ComplexityLevel,
   style: VisualStyle,
-  language: Language
-): Promise<{ isAccurate: boolean; critique: string }> => {
-  
-  // Bypassing verification to send straight to image generation
+  language: Language,
+  signal?: AbortSignal,
+  usage?: UsageMeter
+): Promise<VerificationResult> => {
+  const prompt = `
+    You are a meticulous fact-checker reviewing an infographic about: "${topic}".
+    The infographic should be written in ${language}, target this audience: ${getLevelInstruction(level)}
+    and follow this aesthetic: ${getStyleInstruction(style)}
+
+    These are the researched facts the infographic must convey:
+    ${facts.length > 0 ? facts.map((f, i) => `${i + 1}. ${f}`).join('\n    ') : '(No facts were provided. Check general accuracy only.)'}
+
+    Inspect the image carefully and report:
+    - Misspelled or garbled text labels (type "spelling")
+    - Numbers, dates or quantities that contradict the facts (type "number")
+    - Facts from the list above that are missing from the image (type "missing_fact")
+    - Any other factual or legibility problem (type "other")
+
+    Set isAccurate to true only if there are no issues that a reader would notice.
+    Keep the critique to one or two sentences.
+  `;
+
+  // A response that can't be read says nothing about the image, so it is asked once more and then reported as unverified
+  for (let attempt = 1; attempt <= VERIFY_ATTEMPTS; attempt++) {
+    const response = await getProvider().generateText({
+      task: 'verify',
+      prompt,
+      images: [imageBase64],
+      responseSchema: VERIFICATION_SCHEMA,
+      signal,
+      onUsage: trackUsage('verify', usage),
+    });
+    const result = parseVerificationResponse(response.text);
+    if (result) return result;
+  }
   return {
-    isAccurate: true,
-    critique: "Verification bypassed."
+    isAccurate: false,
+    unverified: true,
+    critique: "The accuracy check returned an unreadable response, so this image was not verified.",
+    issues: []
   };
 };
 
-export const fixInfographicImage = async (currentImageBase64: string, correctionPrompt: string): Promise<string> => {
-  const cleanBase64 = currentImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+const buildCorrectionPrompt = (result: VerificationResult): string => {
+  if (result.issues.length === 0) return result.critique;
+  return result.issues.map(issue => {
+    switch (issue.type) {
+      case 'spelling': return `Correct the spelling of this label: ${issue.description}`;
+      case 'number': return `Correct this number: ${issue.description}`;
+      case 'missing_fact': return `Add this missing fact: ${issue.description}`;
+      default: return issue.description;
+    }
+  }).join('; ');
+};
+
+// Verify the image against the researched facts and apply fix passes until it passes or rounds run out
+export const verifyAndFixInfographic = async (
+  imageBase64: string,
+  topic: string,
+  facts: string[],
+  level: ComplexityLevel,
+  style: VisualStyle,
+  language: Language,
+  maxRounds: number = MAX_FIX_ROUNDS,
+  onFixRound?: (round: number, result: VerificationResult) => void,
+  signal?: AbortSignal,
+  usage?: UsageMeter
+): Promise<{ data: string; verification: VerificationReport }> => {
+  let data = imageBase64;
+  let result = await verifyInfographicAccuracy(data, topic, facts, level, style, language, signal, usage);
+  let fixRounds = 0;
+
+  // An unverified result has no findings to fix, so it never starts a paid fix round
+  while (!result.isAccurate && !result.unverified && fixRounds < maxRounds) {
+    fixRounds++;
+    onFixRound?.(fixRounds, result);
+    data = await fixInfographicImage(data, buildCorrectionPrompt(result), signal, usage);
+    result = await verifyInfographicAccuracy(data, topic, facts, level, style, language, signal, usage);
+  }
+
+  return { data, verification: { ...result, fixRounds } };
+};
+
+// Edit requests don't set an image size, so the model returns its default 1K output
+const trackEditUsage = (usage?: UsageMeter) => trackUsage('edit', usage, '1K');
 
+export const fixInfographicImage = async (currentImageBase64: string, correctionPrompt: string, signal?: AbortSignal, usage?: UsageMeter): Promise<string> => {
   const prompt = `
     Edit this image. 
     Goal: Simplify and Fix.
@@ -184,43 +723,32 @@ export const fixInfographicImage = async (currentImageBase64: string, correction
     Ensure the design is clean and any text is large and legible.
   `;
 
-  const response = await getAi().models.generateContent({
-    model: EDIT_MODEL,
-    contents: {
-      parts: [
-        { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-        { text: prompt }
-      ]
-    }
-  });
+  return getProvider().editImage({ image: currentImageBase64, instruction: prompt, signal, onUsage: trackEditUsage(usage) });
+};
 
-  // Fix: Iterate through parts to find the image part.
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData && part.inlineData.data) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
+export const editInfographicImage = async (currentImageBase64: string, editInstruction: string, region?: EditRegion, signal?: AbortSignal, usage?: UsageMeter): Promise<string> => {
+  if (!region) {
+    return getProvider().editImage({ image: currentImageBase64, instruction: editInstruction, signal, onUsage: trackEditUsage(usage) });
   }
-  throw new Error("Failed to fix image");
-};
 
-export const editInfographicImage = async (currentImageBase64: string, editInstruction: string): Promise<string> => {
-  const cleanBase64 = currentImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
-  
-  const response = await getAi().models.generateContent({
-    model: EDIT_MODEL,
-    contents: {
-      parts: [
-         { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-         { text: editInstruction }
-      ]
-    }
+  const { width, height } = await getImageSize(currentImageBase64);
+  const rect = toPixelRect(region, width, height);
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const instruction = `
+    ${editInstruction}
+
+    Apply this change ONLY inside the rectangle from (${rect.x}, ${rect.y}) to (${rect.x + rect.width}, ${rect.y + rect.height}) pixels
+    in this ${width}x${height} image (left ${percent(region.x)}, top ${percent(region.y)}, width ${percent(region.width)}, height ${percent(region.height)}).
+    The second image is a mask: white marks the area you may change, black must stay exactly as it is.
+    Keep the same canvas size and do not move, restyle or redraw anything outside the white area.
+  `;
+
+  const edited = await getProvider().editImage({
+    image: currentImageBase64,
+    instruction,
+    mask: await buildRegionMask(currentImageBase64, region),
+    signal,
+    onUsage: trackEditUsage(usage),
   });
-  
-  // Fix: Iterate through parts to find the image part.
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData && part.inlineData.data) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-  throw new Error("Failed to edit image");
+  return compositeRegion(currentImageBase64, edited, region);
 };
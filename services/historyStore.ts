@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage, GenerationJob, InfographicSeries, StorageUsage } from "../types";
+import { normalizeResearch } from "./researchPlan";
+
+// Image blobs are kept in their own store so the archive metadata can be listed without decoding any pixels
+const DB_NAME = 'infogenius';
+const DB_VERSION = 3;
+const META_STORE = 'images';
+const BLOB_STORE = 'imageBlobs';
+const JOB_STORE = 'jobs';
+const SERIES_STORE = 'series';
+const TIMESTAMP_INDEX = 'timestamp';
+
+export const LEGACY_STORAGE_KEY = 'infogenius_history_v1';
+const MIGRATION_FLAG_KEY = 'infogenius_history_migrated_v1';
+
+export const HISTORY_PAGE_SIZE = 12;
+
+type StoredImageMeta = Omit<GeneratedImage, 'data'> & { size: number };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          const store = db.createObjectStore(META_STORE, { keyPath: 'id' });
+          store.createIndex(TIMESTAMP_INDEX, 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE);
+        }
+        if (!db.objectStoreNames.contains(JOB_STORE)) {
+          db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SERIES_STORE)) {
+          db.createObjectStore(SERIES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Storage transaction aborted"));
+  });
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64 = ''] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+);/)?.[1] || 'image/png';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const saveImage = async (image: GeneratedImage): Promise<void> => {
+  const db = await openDb();
+  const blob = dataUrlToBlob(image.data);
+  const { data, ...rest } = image;
+  const meta: StoredImageMeta = { ...rest, size: blob.size };
+
+  const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+  tx.objectStore(META_STORE).put(meta);
+  tx.objectStore(BLOB_STORE).put(blob, image.id);
+  await transactionDone(tx);
+};
+
+// Newest first, matching the order the archive is displayed in
+const listMetadata = async (): Promise<StoredImageMeta[]> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const all = await requestToPromise(tx.objectStore(META_STORE).index(TIMESTAMP_INDEX).getAll());
+  return (all as StoredImageMeta[]).reverse();
+};
+
+export const countImages = async (): Promise<number> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(META_STORE).count());
+};
+
+// Entries whose blob is missing are skipped; research saved by older versions is brought up to date
+const attachImageData = async (page: StoredImageMeta[]): Promise<GeneratedImage[]> => {
+  const db = await openDb();
+  const tx = db.transaction(BLOB_STORE, 'readonly');
+  const store = tx.objectStore(BLOB_STORE);
+  const blobs = await Promise.all(page.map(meta => requestToPromise(store.get(meta.id) as IDBRequest<Blob | undefined>)));
+
+  const images: GeneratedImage[] = [];
+  for (let i = 0; i < page.length; i++) {
+    const blob = blobs[i];
+    if (!blob) continue;
+    const { size, research, ...meta } = page[i];
+    images.push({ ...meta, research: research && normalizeResearch(research), data: await blobToDataUrl(blob) });
+  }
+  return images;
+};
+
+// Position of the last entry a history page read; images sharing a timestamp are ordered by id, as in the index
+export interface HistoryCursor {
+  timestamp: number;
+  id: string;
+}
+
+// Walks the timestamp index newest first from just past `after`, so later pages stay put when images are added or evicted.
+// `next` is null once the oldest entry has been read.
+export const loadHistoryPage = async (after: HistoryCursor | null, limit: number = HISTORY_PAGE_SIZE): Promise<{ images: GeneratedImage[]; next: HistoryCursor | null }> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const request = tx.objectStore(META_STORE).index(TIMESTAMP_INDEX).openCursor(after ? IDBKeyRange.upperBound(after.timestamp) : null, 'prev');
+  const page: StoredImageMeta[] = [];
+  await new Promise<void>((resolve, reject) => {
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      const meta = cursor.value as StoredImageMeta;
+      if (!after || meta.timestamp < after.timestamp || meta.id < after.id) page.push(meta);
+      if (page.length >= limit) return resolve();
+      cursor.continue();
+    };
+  });
+  const last = page[page.length - 1];
+  return {
+    images: await attachImageData(page),
+    next: page.length >= limit ? { timestamp: last.timestamp, id: last.id } : null,
+  };
+};
+
+// Specific images regardless of which history page they are on; ids that were deleted or evicted are skipped
+export const loadImagesById = async (ids: string[]): Promise<GeneratedImage[]> => {
+  if (ids.length === 0) return [];
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const store = tx.objectStore(META_STORE);
+  const metas = await Promise.all(ids.map(id => requestToPromise(store.get(id) as IDBRequest<StoredImageMeta | undefined>)));
+  return attachImageData(metas.filter((meta): meta is StoredImageMeta => meta !== undefined));
+};
+
+export const hasImage = async (id: string): Promise<boolean> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return (await requestToPromise(tx.objectStore(META_STORE).count(id))) > 0;
+};
+
+export const deleteImages = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(META_STORE).delete(id);
+    tx.objectStore(BLOB_STORE).delete(id);
+  });
+  await transactionDone(tx);
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+  tx.objectStore(META_STORE).clear();
+  tx.objectStore(BLOB_STORE).clear();
+  await transactionDone(tx);
+};
+
+// Removes the oldest entries and returns their ids so callers can drop them from memory
+export const evictOldest = async (count: number): Promise<string[]> => {
+  const oldest = (await listMetadata()).slice(-count).map(meta => meta.id);
+  await deleteImages(oldest);
+  return oldest;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const all = await listMetadata();
+  const usedBytes = all.reduce((total, meta) => total + meta.size, 0);
+
+  let quotaBytes: number | null = null;
+  if (navigator.storage && navigator.storage.estimate) {
+    const estimate = await navigator.storage.estimate();
+    quotaBytes = estimate.quota ?? null;
+  }
+
+  return { usedBytes, quotaBytes, imageCount: all.length };
+};
+
+// Queue jobs are persisted so work interrupted by a reload can be resumed
+export const saveJobRecord = async (job: GenerationJob): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(JOB_STORE, 'readwrite');
+  const { progress, ...record } = job;
+  tx.objectStore(JOB_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const deleteJobRecords = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(JOB_STORE, 'readwrite');
+  ids.forEach(id => tx.objectStore(JOB_STORE).delete(id));
+  await transactionDone(tx);
+};
+
+// Oldest first, the order jobs were queued in
+export const loadJobRecords = async (): Promise<GenerationJob[]> => {
+  const db = await openDb();
+  const tx = db.transaction(JOB_STORE, 'readonly');
+  const all = await requestToPromise(tx.objectStore(JOB_STORE).getAll()) as GenerationJob[];
+  return all.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Series keep only image ids; the panels' images live in the regular archive
+export const saveSeries = async (series: InfographicSeries): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SERIES_STORE, 'readwrite');
+  tx.objectStore(SERIES_STORE).put(series);
+  await transactionDone(tx);
+};
+
+// Read and written in one transaction so a panel finishing in the background can't undo storyboard edits.
+// Resolves to null when the series was deleted in the meantime.
+export const setSeriesPanelImage = async (seriesId: string, panelId: string, imageId: string): Promise<InfographicSeries | null> => {
+  const db = await openDb();
+  const tx = db.transaction(SERIES_STORE, 'readwrite');
+  const store = tx.objectStore(SERIES_STORE);
+  const series = await requestToPromise(store.get(seriesId)) as InfographicSeries | undefined;
+  if (!series) return null;
+  const updated = { ...series, panels: series.panels.map(p => p.id === panelId ? { ...p, imageId } : p), updatedAt: Date.now() };
+  store.put(updated);
+  await transactionDone(tx);
+  return updated;
+};
+
+export const deleteSeries = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SERIES_STORE, 'readwrite');
+  tx.objectStore(SERIES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Most recently changed first
+export const listSeries = async (): Promise<InfographicSeries[]> => {
+  const db = await openDb();
+  const tx = db.transaction(SERIES_STORE, 'readonly');
+  const all = await requestToPromise(tx.objectStore(SERIES_STORE).getAll()) as InfographicSeries[];
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// One-time import of the archive that older versions serialized into localStorage
+export const migrateLegacyHistory = async (): Promise<number> => {
+  if (localStorage.getItem(MIGRATION_FLAG_KEY)) return 0;
+
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  let migrated = 0;
+  if (saved) {
+    try {
+      const parsed: GeneratedImage[] = JSON.parse(saved);
+      for (const image of parsed) {
+        if (image && image.id && typeof image.data === 'string' && image.data.startsWith('data:')) {
+          await saveImage(image);
+          migrated++;
+        }
+      }
+    } catch (e) {
+      console.error("Failed to migrate saved history", e);
+      return 0;
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  localStorage.setItem(MIGRATION_FLAG_KEY, Date.now().toString());
+  return migrated;
+};
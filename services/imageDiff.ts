@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DiffResult {
+  heatmap: string; // PNG data URL: the first image in grayscale with changed pixels painted from yellow to red
+  changedRatio: number; // Share of pixels whose difference exceeds the noise threshold
+  width: number;
+  height: number;
+}
+
+// Per-channel differences below this are treated as compression noise
+const NOISE_THRESHOLD = 24;
+// Large images are compared at reduced size; a heatmap does not need full resolution
+const MAX_DIFF_DIMENSION = 1600;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load an image for comparison."));
+    img.src = src;
+  });
+};
+
+const readPixels = (img: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// The second image is scaled to the first one's size, so revisions at different resolutions still line up
+export const computeDiffHeatmap = async (before: string, after: string): Promise<DiffResult> => {
+  const [a, b] = await Promise.all([loadImage(before), loadImage(after)]);
+  const scale = Math.min(1, MAX_DIFF_DIMENSION / Math.max(a.naturalWidth, a.naturalHeight));
+  const width = Math.round(a.naturalWidth * scale);
+  const height = Math.round(a.naturalHeight * scale);
+
+  const pixelsA = readPixels(a, width, height);
+  const pixelsB = readPixels(b, width, height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const output = ctx.createImageData(width, height);
+  let changed = 0;
+
+  for (let i = 0; i < pixelsA.length; i += 4) {
+    const diff = Math.max(
+      Math.abs(pixelsA[i] - pixelsB[i]),
+      Math.abs(pixelsA[i + 1] - pixelsB[i + 1]),
+      Math.abs(pixelsA[i + 2] - pixelsB[i + 2])
+    );
+    const gray = (pixelsA[i] * 0.299 + pixelsA[i + 1] * 0.587 + pixelsA[i + 2] * 0.114) * 0.5;
+
+    if (diff > NOISE_THRESHOLD) {
+      changed++;
+      // Yellow for small changes, red for large ones
+      const intensity = Math.min(1, (diff - NOISE_THRESHOLD) / (255 - NOISE_THRESHOLD));
+      output.data[i] = 255;
+      output.data[i + 1] = Math.round(220 * (1 - intensity));
+      output.data[i + 2] = 0;
+    } else {
+      output.data[i] = gray;
+      output.data[i + 1] = gray;
+      output.data[i + 2] = gray;
+    }
+    output.data[i + 3] = 255;
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return { heatmap: canvas.toDataURL('image/png'), changedRatio: changed / (width * height), width, height };
+};
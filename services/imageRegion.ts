@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { EditRegion } from "../types";
+
+// Region edits: the model gets a mask plus pixel coordinates, and the result is composited back onto
+// the original so nothing outside the selection can change even if the model redraws the whole image.
+
+const FEATHER_RATIO = 0.01;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the image for region editing."));
+    img.src = src;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+export const toPixelRect = (region: EditRegion, width: number, height: number) => ({
+  x: Math.round(region.x * width),
+  y: Math.round(region.y * height),
+  width: Math.round(region.width * width),
+  height: Math.round(region.height * height),
+});
+
+export const getImageSize = async (dataUrl: string) => {
+  const img = await loadImage(dataUrl);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+// Black image with the editable region in white, at the source image's resolution
+export const buildRegionMask = async (imageDataUrl: string, region: EditRegion): Promise<string> => {
+  const { width, height } = await getImageSize(imageDataUrl);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  const rect = toPixelRect(region, width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  return canvas.toDataURL('image/png');
+};
+
+// White inside the rect, fading to transparent over `ramp` pixels at each edge: a horizontal fade multiplied by a
+// vertical one. Gradients are used rather than ctx.filter blur, which not every browser's canvas supports.
+const featheredMask = (width: number, height: number, rect: ReturnType<typeof toPixelRect>, ramp: number) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  if (rect.width <= 0 || rect.height <= 0) return canvas;
+  const fade = (start: number, size: number, horizontal: boolean) => {
+    const edge = Math.min(ramp, size / 2) / size;
+    const gradient = horizontal ? ctx.createLinearGradient(start, 0, start + size, 0) : ctx.createLinearGradient(0, start, 0, start + size);
+    gradient.addColorStop(0, 'rgba(255, 255, 255, 0)');
+    gradient.addColorStop(edge, '#ffffff');
+    gradient.addColorStop(1 - edge, '#ffffff');
+    gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    return gradient;
+  };
+  ctx.fillStyle = fade(rect.x, rect.width, true);
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.fillStyle = fade(rect.y, rect.height, false);
+  ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  return canvas;
+};
+
+// Keeps the original everywhere except the region, taken from the edited image with a slightly feathered edge
+export const compositeRegion = async (originalDataUrl: string, editedDataUrl: string, region: EditRegion): Promise<string> => {
+  const [original, edited] = await Promise.all([loadImage(originalDataUrl), loadImage(editedDataUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+  const rect = toPixelRect(region, width, height);
+  const feather = Math.max(1, Math.round(Math.min(width, height) * FEATHER_RATIO));
+
+  // Edited pixels, cut to the region through the feathered mask
+  const { canvas: patch, ctx: patchCtx } = createCanvas(width, height);
+  patchCtx.drawImage(edited, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  patchCtx.drawImage(featheredMask(width, height, rect, feather * 2), 0, 0);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(patch, 0, 0);
+  return canvas.toDataURL('image/png');
+};
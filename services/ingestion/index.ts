@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ContextSource, DocumentFormat, ExtractedDocument, ExtractedTable } from "../../types";
+import { parseCsvRecords } from "../batchInput";
+import { summarizeContext } from "../geminiService";
+import { extractPdf } from "./pdf";
+import { extractDocx, extractXlsx } from "./office";
+import { extractHtml, extractMarkdown } from "./markup";
+import { fetchPage, normalizeUrl } from "./url";
+
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+export const ACCEPTED_FILE_TYPES = '.pdf,.docx,.xlsx,.csv,.html,.htm,.md,.markdown,.txt';
+
+// Per-source budget for what is sent to the research model; larger documents are chunked and summarized
+export const SOURCE_TOKEN_BUDGET = 8000;
+const CHUNK_TOKENS = 6000;
+const MAX_TABLE_ROWS = 200;
+const MAX_SUMMARY_CHUNKS = 12;
+const MAX_REDUCE_PASSES = 2;
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  xlsx: 'xlsx',
+  csv: 'csv',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+};
+
+export type IngestedSource = Pick<ContextSource, 'content' | 'format' | 'tables' | 'tokenEstimate' | 'originalTokenEstimate' | 'summarized' | 'snapshot'>;
+
+export const detectFormat = (fileName: string): DocumentFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_FORMATS[extension] ?? null;
+};
+
+// Rough heuristic (~4 characters per token) — good enough for budgeting without a tokenizer
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const escapeCell = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+
+export const renderTableMarkdown = (table: ExtractedTable): string => {
+  const width = Math.max(...table.rows.map(row => row.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => escapeCell(row[i] ?? ''));
+  const [header, ...body] = table.rows;
+  const lines = [
+    `| ${pad(header).join(' | ')} |`,
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...body.slice(0, MAX_TABLE_ROWS).map(row => `| ${pad(row).join(' | ')} |`),
+  ];
+  if (body.length > MAX_TABLE_ROWS) lines.push(`(${body.length - MAX_TABLE_ROWS} more rows omitted)`);
+  return `${table.name ? `**${table.name}**\n\n` : ''}${lines.join('\n')}`;
+};
+
+const extractDocument = async (file: File, format: DocumentFormat): Promise<ExtractedDocument> => {
+  switch (format) {
+    case 'pdf': return extractPdf(await file.arrayBuffer());
+    case 'docx': return extractDocx(await file.arrayBuffer());
+    case 'xlsx': return extractXlsx(await file.arrayBuffer());
+    case 'html': return extractHtml(await file.text());
+    case 'markdown': return extractMarkdown(await file.text());
+    case 'csv': {
+      const rows = parseCsvRecords(await file.text());
+      return { format, text: '', tables: rows.length > 0 ? [{ name: file.name, rows }] : [] };
+    }
+    case 'text': return { format, text: (await file.text()).trim(), tables: [] };
+  }
+};
+
+// Tables extracted inline leave a `[Table n]` marker in the text; put the rendered table there, append the rest
+const composeContent = (doc: ExtractedDocument): string => {
+  let text = doc.text;
+  const trailing: string[] = [];
+  doc.tables.forEach((table, i) => {
+    const marker = `[Table ${i + 1}]`;
+    const rendered = renderTableMarkdown(table);
+    if (text.includes(marker)) text = text.replace(marker, rendered);
+    else trailing.push(rendered);
+  });
+  return [text, ...trailing].filter(Boolean).join('\n\n');
+};
+
+// Splits on paragraph boundaries; a single oversized paragraph is hard-split
+export const chunkText = (text: string, maxTokens: number): string[] => {
+  const maxChars = maxTokens * 4;
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    if (paragraph.length > maxChars) {
+      for (let i = 0; i < paragraph.length; i += maxChars) chunks.push(paragraph.slice(i, i + maxChars));
+      continue;
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const summarizeChunks = async (name: string, chunks: string[]): Promise<string> => {
+  const perChunk = Math.max(200, Math.floor(SOURCE_TOKEN_BUDGET / chunks.length));
+  const summaries: string[] = [];
+  for (const [i, chunk] of chunks.entries()) {
+    summaries.push(await summarizeContext(`${name} (part ${i + 1} of ${chunks.length})`, chunk, perChunk));
+  }
+  return summaries.join('\n\n');
+};
+
+// Every chunk is a paid, sequential call, so only the start of a very large document is summarized.
+// Summaries that still overshoot are condensed again, and the budget is enforced by truncation as a last resort.
+const fitToBudget = async (name: string, content: string): Promise<{ content: string; summarized: boolean }> => {
+  if (estimateTokens(content) <= SOURCE_TOKEN_BUDGET) return { content, summarized: false };
+
+  const chunks = chunkText(content, CHUNK_TOKENS);
+  const omitted = Math.max(0, chunks.length - MAX_SUMMARY_CHUNKS);
+  let summary = await summarizeChunks(name, chunks.slice(0, MAX_SUMMARY_CHUNKS));
+  for (let pass = 0; pass < MAX_REDUCE_PASSES && estimateTokens(summary) > SOURCE_TOKEN_BUDGET; pass++) {
+    summary = await summarizeChunks(`${name} (condensed)`, chunkText(summary, CHUNK_TOKENS));
+  }
+
+  const note = omitted > 0 ? `\n\n(Only the first ${MAX_SUMMARY_CHUNKS} of ${chunks.length} parts of this source were summarized.)` : '';
+  if (estimateTokens(summary + note) > SOURCE_TOKEN_BUDGET) {
+    summary = summary.slice(0, SOURCE_TOKEN_BUDGET * 4 - note.length);
+  }
+  return { content: summary + note, summarized: true };
+};
+
+export const ingestFile = async (file: File): Promise<IngestedSource> => {
+  const format = detectFormat(file.name);
+  if (!format) throw new Error(`"${file.name}" is not a supported document type.`);
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`"${file.name}" is too large. Please upload files smaller than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB.`);
+  }
+
+  const doc = await extractDocument(file, format);
+  const fullContent = composeContent(doc);
+  if (!fullContent.trim()) throw new Error(`No readable text was found in "${file.name}".`);
+
+  const { content, summarized } = await fitToBudget(file.name, fullContent);
+  return {
+    content,
+    format,
+    tables: doc.tables,
+    tokenEstimate: estimateTokens(content),
+    originalTokenEstimate: estimateTokens(fullContent),
+    summarized,
+  };
+};
+
+// Fetches the page, keeps the readable article text as a snapshot and budgets it like an uploaded file
+export const ingestUrl = async (input: string): Promise<IngestedSource & { name: string }> => {
+  const url = normalizeUrl(input);
+  const page = await fetchPage(url);
+  const fullContent = composeContent(page);
+  if (!fullContent.trim()) throw new Error(`No readable text was found at ${url}.`);
+
+  const { title, ...metadata } = page.metadata;
+  const header = [
+    title && `Title: ${title}`,
+    metadata.siteName && `Site: ${metadata.siteName}`,
+    metadata.byline && `Author: ${metadata.byline}`,
+    metadata.publishedAt && `Published: ${metadata.publishedAt}`,
+  ].filter(Boolean).join('\n');
+
+  const { content, summarized } = await fitToBudget(title || url, fullContent);
+  const prompted = header ? `${header}\n\n${content}` : content;
+  return {
+    name: title || url,
+    content: prompted,
+    format: page.format,
+    tables: page.tables,
+    tokenEstimate: estimateTokens(prompted),
+    originalTokenEstimate: estimateTokens(fullContent),
+    summarized,
+    snapshot: {
+      url,
+      finalUrl: page.finalUrl,
+      title: title || url,
+      ...metadata,
+      fetchedAt: Date.now(),
+      text: fullContent,
+    },
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ExtractedDocument, ExtractedTable } from "../../types";
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'LI', 'TR', 'BR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE']);
+const NOISE_SELECTOR = 'script, style, noscript, nav, footer, header, aside, form, iframe, svg';
+
+const tableRows = (table: HTMLTableElement): string[][] =>
+  Array.from(table.rows).map(row => Array.from(row.cells).map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim()));
+
+// Walks the tree so block elements become line breaks and headings keep their level as markdown
+const blockText = (root: Node): string => {
+  let out = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      out += (node.textContent || '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    const heading = node.tagName.match(/^H([1-6])$/);
+    if (heading) out += `\n\n${'#'.repeat(parseInt(heading[1], 10))} `;
+    else if (node.tagName === 'LI') out += '\n- ';
+    node.childNodes.forEach(walk);
+    if (BLOCK_TAGS.has(node.tagName)) out += '\n';
+  };
+  walk(root);
+  return out.split('\n').map(line => line.trim()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+export interface HtmlMetadata {
+  title: string;
+  siteName?: string;
+  byline?: string;
+  publishedAt?: string;
+  description?: string;
+}
+
+const metaContent = (doc: Document, ...names: string[]): string | undefined => {
+  for (const name of names) {
+    const value = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content')?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+export const extractHtml = (html: string): ExtractedDocument & { metadata: HtmlMetadata } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Read metadata before noise removal strips the header
+  const metadata: HtmlMetadata = {
+    title: metaContent(doc, 'og:title') || doc.title.trim(),
+    siteName: metaContent(doc, 'og:site_name', 'application-name'),
+    byline: metaContent(doc, 'author', 'article:author'),
+    publishedAt: metaContent(doc, 'article:published_time', 'date', 'dc.date'),
+    description: metaContent(doc, 'og:description', 'description'),
+  };
+  doc.querySelectorAll(NOISE_SELECTOR).forEach(el => el.remove());
+
+  const tables: ExtractedTable[] = [];
+  doc.querySelectorAll('table').forEach(table => {
+    const rows = tableRows(table as HTMLTableElement);
+    if (rows.length > 0) {
+      tables.push({ name: table.querySelector('caption')?.textContent?.trim() || `Table ${tables.length + 1}`, rows });
+      table.replaceWith(doc.createTextNode(`[Table ${tables.length}]`));
+    }
+  });
+
+  const main = doc.querySelector('article') || doc.querySelector('main') || doc.body;
+  return {
+    format: 'html',
+    metadata,
+    text: main ? blockText(main) : '',
+    tables
+  };
+};
+
+// Markdown is already clean text; drop images, raw HTML comments and link targets that only add noise
+export const extractMarkdown = (markdown: string): ExtractedDocument => ({
+  format: 'markdown',
+  text: markdown
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim(),
+  tables: []
+});
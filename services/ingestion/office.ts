@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from "jszip";
+import { ExtractedDocument, ExtractedTable } from "../../types";
+
+// DOCX and XLSX are zipped XML; reading the parts directly avoids pulling in full office libraries
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+const childrenNamed = (el: Element, localName: string): Element[] =>
+  Array.from(el.children).filter(child => child.localName === localName);
+
+const descendantsNamed = (el: Element | Document, localName: string): Element[] =>
+  Array.from(el.getElementsByTagNameNS('*', localName));
+
+const readZipText = async (zip: JSZip, path: string): Promise<string | null> => {
+  const file = zip.file(path);
+  return file ? file.async('string') : null;
+};
+
+// --- DOCX ---
+
+const docxRunText = (paragraph: Element): string => {
+  let text = '';
+  descendantsNamed(paragraph, 'r').forEach(run => {
+    Array.from(run.children).forEach(node => {
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab') text += '\t';
+      else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+    });
+  });
+  return text;
+};
+
+const docxHeadingLevel = (paragraph: Element): number => {
+  const style = descendantsNamed(paragraph, 'pStyle')[0]?.getAttribute('w:val') || '';
+  const match = style.match(/^(?:Heading|Titre|berschrift)\s?(\d)/i);
+  if (match) return parseInt(match[1], 10);
+  return style.toLowerCase() === 'title' ? 1 : 0;
+};
+
+export const extractDocx = async (data: ArrayBuffer): Promise<ExtractedDocument> => {
+  const zip = await JSZip.loadAsync(data);
+  const xml = await readZipText(zip, 'word/document.xml');
+  if (!xml) throw new Error("This file is not a valid Word document.");
+
+  const body = descendantsNamed(parseXml(xml), 'body')[0];
+  const blocks: string[] = [];
+  const tables: ExtractedTable[] = [];
+
+  Array.from(body?.children || []).forEach(node => {
+    if (node.localName === 'p') {
+      const text = docxRunText(node).trim();
+      if (!text) return;
+      const level = docxHeadingLevel(node);
+      blocks.push(level > 0 ? `${'#'.repeat(level)} ${text}` : text);
+    } else if (node.localName === 'tbl') {
+      const rows = childrenNamed(node, 'tr').map(tr =>
+        childrenNamed(tr, 'tc').map(tc => descendantsNamed(tc, 'p').map(docxRunText).join(' ').trim())
+      );
+      if (rows.length > 0) {
+        tables.push({ name: `Table ${tables.length + 1}`, rows });
+        blocks.push(`[Table ${tables.length}]`);
+      }
+    }
+  });
+
+  return { format: 'docx', text: blocks.join('\n\n'), tables };
+};
+
+// --- XLSX ---
+
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.replace(/\d+/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+export const extractXlsx = async (data: ArrayBuffer): Promise<ExtractedDocument> => {
+  const zip = await JSZip.loadAsync(data);
+  const workbookXml = await readZipText(zip, 'xl/workbook.xml');
+  if (!workbookXml) throw new Error("This file is not a valid Excel workbook.");
+
+  const sharedStringsXml = await readZipText(zip, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? descendantsNamed(parseXml(sharedStringsXml), 'si').map(si => descendantsNamed(si, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const relsXml = await readZipText(zip, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    descendantsNamed(parseXml(relsXml), 'Relationship').forEach(rel => {
+      const target = rel.getAttribute('Target') || '';
+      targets.set(rel.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    });
+  }
+
+  const tables: ExtractedTable[] = [];
+  for (const sheet of descendantsNamed(parseXml(workbookXml), 'sheet')) {
+    const relId = sheet.getAttribute('r:id') || '';
+    const sheetXml = await readZipText(zip, targets.get(relId) || '');
+    if (!sheetXml) continue;
+
+    const rows: string[][] = [];
+    descendantsNamed(parseXml(sheetXml), 'row').forEach(rowEl => {
+      const row: string[] = [];
+      let column = -1;
+      childrenNamed(rowEl, 'c').forEach(cell => {
+        // `r` is optional; a cell without it follows the previous one
+        const ref = cell.getAttribute('r');
+        column = ref ? columnIndex(ref) : column + 1;
+        const type = cell.getAttribute('t');
+        const raw = childrenNamed(cell, 'v')[0]?.textContent ?? '';
+        let value = raw;
+        if (type === 's') value = sharedStrings[parseInt(raw, 10)] ?? '';
+        else if (type === 'inlineStr') value = descendantsNamed(cell, 't').map(t => t.textContent || '').join('');
+        else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+        row[column] = value;
+      });
+      if (row.some(cell => cell && cell.trim())) {
+        rows.push(Array.from(row, cell => cell ?? ''));
+      }
+    });
+    if (rows.length > 0) tables.push({ name: sheet.getAttribute('name') || `Sheet ${tables.length + 1}`, rows });
+  }
+
+  return { format: 'xlsx', text: '', tables };
+};
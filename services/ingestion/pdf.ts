@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getDocument, GlobalWorkerOptions, version } from "pdfjs-dist";
+import { ExtractedDocument } from "../../types";
+
+// Loaded from the same CDN as the importmap build of the library, pinned to the exact version that was loaded,
+// so it resolves both under the importmap and in a bundled build (pdf.js rejects a worker of another version)
+GlobalWorkerOptions.workerSrc = `https://aistudiocdn.com/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+
+export const extractPdf = async (data: ArrayBuffer): Promise<ExtractedDocument> => {
+  const pdf = await getDocument({ data: new Uint8Array(data) }).promise;
+  const pages: string[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    let pageText = '';
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      pageText += item.str;
+      pageText += item.hasEOL ? '\n' : ' ';
+    }
+    pages.push(pageText.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim());
+  }
+  await pdf.destroy();
+
+  return {
+    format: 'pdf',
+    text: pages
+      // Numbered before blank pages are dropped, so labels match the page numbers a reader sees
+      .map((text, i) => ({ page: i + 1, text }))
+      .filter(({ text }) => text)
+      .map(({ page, text }) => `[Page ${page}]\n${text}`)
+      .join('\n\n'),
+    tables: []
+  };
+};
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ExtractedDocument } from "../../types";
+import { getProviderConfig } from "../config";
+import { extractHtml, extractMarkdown, HtmlMetadata } from "./markup";
+
+const FETCH_TIMEOUT_MS = 20000;
+
+export interface FetchedPage extends ExtractedDocument {
+  finalUrl: string;
+  metadata: HtmlMetadata;
+}
+
+// A template containing `{url}` gets the encoded page URL substituted; any other value is used as a prefix
+const buildFetchUrl = (url: string, fetcher: string): string => {
+  if (!fetcher) return url;
+  return fetcher.includes('{url}') ? fetcher.replace('{url}', encodeURIComponent(url)) : `${fetcher}${encodeURIComponent(url)}`;
+};
+
+export const normalizeUrl = (input: string): string => {
+  const trimmed = input.trim();
+  const parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Only http and https links can be fetched.`);
+  }
+  return parsed.toString();
+};
+
+export const fetchPage = async (url: string): Promise<FetchedPage> => {
+  const { urlFetcher } = getProviderConfig();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(buildFetchUrl(url, urlFetcher), { signal: controller.signal });
+  } catch (err) {
+    const reason = controller.signal.aborted ? 'the request timed out' : urlFetcher ? 'the fetch proxy could not be reached' : 'the site does not allow direct browser access (configure a fetch proxy)';
+    throw new Error(`Could not fetch ${url}: ${reason}.`);
+  } finally {
+    clearTimeout(timer);
+  }
+  if (!response.ok) {
+    throw new Error(`Could not fetch ${url}: the server answered ${response.status}.`);
+  }
+
+  const body = await response.text();
+  // Proxies report their own URL, so only trust `response.url` for direct fetches
+  const finalUrl = urlFetcher ? url : (response.url || url);
+  const contentType = response.headers.get('content-type') || '';
+
+  if (contentType.includes('html') || /^\s*<(!doctype|html)/i.test(body)) {
+    return { ...extractHtml(body), finalUrl };
+  }
+  const doc = contentType.includes('markdown') ? extractMarkdown(body) : { format: 'text' as const, text: body.trim(), tables: [] };
+  return { ...doc, finalUrl, metadata: { title: new URL(finalUrl).pathname.split('/').pop() || finalUrl } };
+};
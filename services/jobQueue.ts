@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage, GenerationJob, JobInput, ResearchResult } from "../types";
+import { runEditPipeline, runGenerationPipeline, runLocalizationPipeline, runSeriesPanelPipeline } from "./pipeline";
+import { deleteJobRecords, loadJobRecords, saveJobRecord } from "./historyStore";
+import { CancelledError, classifyError } from "./errors";
+
+const CONCURRENCY_STORAGE_KEY = 'infogenius_job_concurrency';
+const DEFAULT_JOB_CONCURRENCY = 1;
+export const MAX_JOB_CONCURRENCY = 4;
+
+export interface JobQueueOptions {
+  onChange: (jobs: GenerationJob[]) => void;
+  onDeliver: (job: GenerationJob, image: GeneratedImage) => void; // Called in queue order
+  onFailed?: (job: GenerationJob, err: unknown) => void;
+}
+
+export interface EnqueueOptions {
+  originImageId?: string;
+  after?: string;
+}
+
+export interface JobQueue {
+  init: () => Promise<GenerationJob[]>;
+  enqueue: (input: JobInput, options?: EnqueueOptions) => GenerationJob;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+  approvePlan: (id: string, plan: ResearchResult) => void;
+  setConcurrency: (value: number) => void;
+}
+
+const createJobId = () => Math.random().toString(36).substr(2, 9);
+
+// Jobs still holding or waiting for work; everything else is settled
+export const isJobActive = (job: GenerationJob): boolean =>
+  job.status === 'queued' || job.status === 'running' || job.status === 'review';
+
+export const getJobConcurrency = (): number => {
+  const saved = parseInt(localStorage.getItem(CONCURRENCY_STORAGE_KEY) || '', 10);
+  return Number.isFinite(saved) ? Math.min(MAX_JOB_CONCURRENCY, Math.max(1, saved)) : DEFAULT_JOB_CONCURRENCY;
+};
+
+export const describeJob = (input: JobInput): string => {
+  switch (input.kind) {
+    case 'generate': return input.topic;
+    case 'edit': return `Edit: ${input.instruction}`;
+    case 'localize': return `${input.language}: ${input.source.research?.title || input.source.prompt}`;
+    case 'seriesPanel': return `${input.series.title}: ${input.series.panels.find(p => p.id === input.panelId)?.title || 'Panel'}`;
+  }
+};
+
+const byCreatedAt = (a: GenerationJob, b: GenerationJob) => a.createdAt - b.createdAt;
+
+export const createJobQueue = ({ onChange, onDeliver, onFailed }: JobQueueOptions): JobQueue => {
+  let jobs: GenerationJob[] = [];
+  let concurrency = getJobConcurrency();
+  const controllers = new Map<string, AbortController>();
+  const planDecisions = new Map<string, { resolve: (plan: ResearchResult) => void; reject: (err: unknown) => void }>();
+
+  const emit = () => onChange([...jobs]);
+
+  const persist = (job: GenerationJob) => {
+    saveJobRecord(job).catch(e => console.error("Failed to save job", e));
+  };
+
+  // Progress ticks only update memory; status changes are written through so a reload can recover them
+  const update = (id: string, changes: Partial<GenerationJob>, save: boolean = true) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+    const job = jobs.find(j => j.id === id);
+    if (job && save) persist(job);
+    emit();
+  };
+
+  // A finished job waits until every job queued before it has settled, so the history keeps queue order
+  const deliver = () => {
+    for (const job of jobs) {
+      if (isJobActive(job)) return;
+      if (job.status === 'done' && job.result) {
+        const image = job.result;
+        update(job.id, { result: undefined, resultId: image.id });
+        onDeliver(job, image);
+      }
+    }
+  };
+
+  const execute = async (job: GenerationJob, signal: AbortSignal): Promise<GeneratedImage> => {
+    const { input } = job;
+    const onStep = (step: number, message: string) => update(job.id, { step, message }, false);
+
+    switch (input.kind) {
+      case 'generate': {
+        const image = await runGenerationPipeline(input.topic, input.settings, input.context, {
+          onStep,
+          onResearchProgress: (progress) => update(job.id, { progress }, false),
+          onResearch: (research) => update(job.id, {
+            progress: { facts: research.facts, sources: research.searchResults, outputTokens: jobs.find(j => j.id === job.id)?.progress?.outputTokens || 0 }
+          }, false),
+          onReviewPlan: input.reviewPlan ? (research) => new Promise<ResearchResult>((resolve, reject) => {
+            planDecisions.set(job.id, { resolve, reject });
+            update(job.id, { status: 'review', plan: research });
+          }) : undefined
+        }, input.references, signal);
+        if (input.snapshots.length > 0) image.sourceSnapshots = input.snapshots;
+        if (input.collection) image.collection = input.collection;
+        return image;
+      }
+      case 'edit':
+        onStep(2, input.region ? `Editing Selected Area: "${input.instruction}"...` : `Processing Modification: "${input.instruction}"...`);
+        return runEditPipeline(input.source, input.instruction, input.region, signal);
+      case 'localize':
+        return runLocalizationPipeline(input.source, input.language, input.mode, {
+          onStep,
+          onResearch: (research) => update(job.id, { progress: { facts: research.facts, sources: research.searchResults, outputTokens: 0 } }, false)
+        }, signal);
+      case 'seriesPanel':
+        return runSeriesPanelPipeline(input.series, input.panelId, input.styleAnchor, { onStep }, signal);
+    }
+  };
+
+  const run = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', startedAt: Date.now(), step: 1, message: 'Starting...', progress: undefined });
+
+    try {
+      const image = await execute(job, controller.signal);
+      // Steps that ignore the signal (e.g. the local palette check) can still finish after a cancel
+      if (controller.signal.aborted) throw new CancelledError();
+      update(job.id, { status: 'done', finishedAt: Date.now(), step: 0, message: 'Done', result: image, plan: undefined, progress: undefined });
+      handOff(job.id, image);
+    } catch (err) {
+      const classified = classifyError(err);
+      if (classified.kind === 'cancelled') {
+        update(job.id, { status: 'cancelled', finishedAt: Date.now(), step: 0, message: 'Cancelled', plan: undefined, progress: undefined });
+      } else {
+        update(job.id, { status: 'failed', finishedAt: Date.now(), step: 0, message: 'Failed', error: classified.message, plan: undefined, progress: undefined });
+        const failed = jobs.find(j => j.id === job.id);
+        if (failed) onFailed?.(failed, err);
+      }
+    } finally {
+      controllers.delete(job.id);
+      planDecisions.delete(job.id);
+      deliver();
+      pump();
+    }
+  };
+
+  // Series panels waiting on the first panel take its image as their style anchor.
+  // It's saved with the job, so a resumed panel still matches the series.
+  const handOff = (id: string, image: GeneratedImage) => {
+    for (const job of jobs) {
+      if (job.after !== id || !isJobActive(job) || job.input.kind !== 'seriesPanel' || job.input.styleAnchor) continue;
+      update(job.id, { input: { ...job.input, styleAnchor: image } });
+    }
+  };
+
+  // A job whose `after` job failed or was cancelled runs anyway, just without that job's result
+  const isWaiting = (job: GenerationJob): boolean => {
+    const dependency = job.after ? jobs.find(j => j.id === job.after) : undefined;
+    return !!dependency && isJobActive(dependency);
+  };
+
+  // Jobs paused on plan review hold no request, so they don't take a slot
+  const pump = () => {
+    let running = jobs.filter(job => job.status === 'running').length;
+    for (const job of jobs) {
+      if (running >= concurrency) return;
+      if (job.status === 'queued' && !isWaiting(job)) {
+        running++;
+        run(job);
+      }
+    }
+  };
+
+  const enqueue = (input: JobInput, { originImageId, after }: EnqueueOptions = {}): GenerationJob => {
+    const job: GenerationJob = {
+      id: createJobId(),
+      label: describeJob(input),
+      input,
+      originImageId,
+      after,
+      status: 'queued',
+      createdAt: Date.now(),
+      step: 0,
+      message: 'Queued',
+    };
+    jobs = [...jobs, job];
+    persist(job);
+    emit();
+    pump();
+    return job;
+  };
+
+  const cancel = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job) return;
+    if (job.status === 'queued') {
+      update(id, { status: 'cancelled', finishedAt: Date.now(), message: 'Cancelled' });
+      deliver();
+      return;
+    }
+    if (job.status === 'running' || job.status === 'review') {
+      // In-flight requests reject with an AbortError; run() records the cancellation once they do
+      controllers.get(id)?.abort();
+      planDecisions.get(id)?.reject(new CancelledError('The research plan was discarded.'));
+      update(id, { message: 'Cancelling...' }, false);
+    }
+  };
+
+  // Retried jobs go to the back of the queue and start over from scratch
+  const retry = (id: string) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || !(job.status === 'failed' || job.status === 'cancelled' || job.status === 'interrupted')) return;
+    update(id, {
+      status: 'queued',
+      createdAt: Date.now(),
+      startedAt: undefined,
+      finishedAt: undefined,
+      step: 0,
+      message: 'Queued',
+      error: undefined,
+      plan: undefined,
+    });
+    jobs = [...jobs].sort(byCreatedAt);
+    emit();
+    pump();
+  };
+
+  // Jobs with a result still waiting for delivery are kept so the image isn't lost
+  const removeJobs = (removable: (job: GenerationJob) => boolean) => {
+    const removed = jobs.filter(job => !isJobActive(job) && !job.result && removable(job)).map(job => job.id);
+    if (removed.length === 0) return;
+    jobs = jobs.filter(job => !removed.includes(job.id));
+    deleteJobRecords(removed).catch(e => console.error("Failed to delete jobs", e));
+    emit();
+    deliver();
+  };
+
+  const remove = (id: string) => removeJobs(job => job.id === id);
+
+  const clearFinished = () => removeJobs(job => job.status !== 'interrupted');
+
+  const approvePlan = (id: string, plan: ResearchResult) => {
+    const decision = planDecisions.get(id);
+    if (!decision) return;
+    planDecisions.delete(id);
+    update(id, { status: 'running', plan: undefined });
+    decision.resolve(plan);
+  };
+
+  const setConcurrency = (value: number) => {
+    concurrency = Math.min(MAX_JOB_CONCURRENCY, Math.max(1, Math.round(value)));
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+    pump();
+  };
+
+  // Requests don't survive a reload, so unfinished jobs come back as 'interrupted' for the user to resume.
+  // Delivered and cancelled jobs from earlier sessions are dropped.
+  const init = async (): Promise<GenerationJob[]> => {
+    let records: GenerationJob[] = [];
+    try {
+      records = await loadJobRecords();
+    } catch (e) {
+      console.error("Failed to load saved jobs", e);
+    }
+
+    const stale = records.filter(job => job.status === 'cancelled' || (job.status === 'done' && !job.result));
+    deleteJobRecords(stale.map(job => job.id)).catch(e => console.error("Failed to delete jobs", e));
+
+    const restored = records
+      .filter(job => !stale.includes(job))
+      .map(job => isJobActive(job) ? { ...job, status: 'interrupted' as const, step: 0, message: 'Interrupted by page reload', plan: undefined } : job);
+    restored.filter(job => job.status === 'interrupted').forEach(persist);
+
+    jobs = [...restored, ...jobs].sort(byCreatedAt);
+    emit();
+    deliver();
+    return restored;
+  };
+
+  return { init, enqueue, cancel, retry, remove, clearFinished, approvePlan, setConcurrency };
+};
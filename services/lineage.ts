@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage } from "../types";
+
+export interface LineageNode {
+  image: GeneratedImage;
+  children: LineageNode[];
+}
+
+// Walks parentId links up to the original. Stops at the first ancestor that is not loaded.
+export const findRootImage = (images: GeneratedImage[], imageId: string): GeneratedImage | undefined => {
+  const byId = new Map(images.map(img => [img.id, img]));
+  let current = byId.get(imageId);
+  const seen = new Set<string>();
+  while (current && current.parentId && byId.has(current.parentId) && !seen.has(current.id)) {
+    seen.add(current.id);
+    current = byId.get(current.parentId);
+  }
+  return current;
+};
+
+export const getAncestors = (images: GeneratedImage[], imageId: string): GeneratedImage[] => {
+  const byId = new Map(images.map(img => [img.id, img]));
+  const ancestors: GeneratedImage[] = [];
+  let current = byId.get(imageId);
+  while (current && current.parentId && byId.has(current.parentId)) {
+    current = byId.get(current.parentId)!;
+    if (ancestors.includes(current)) break;
+    ancestors.push(current);
+  }
+  return ancestors;
+};
+
+export const buildLineageTree = (images: GeneratedImage[], rootId: string): LineageNode | null => {
+  const root = images.find(img => img.id === rootId);
+  if (!root) return null;
+
+  const childrenByParent = new Map<string, GeneratedImage[]>();
+  images.forEach(img => {
+    if (!img.parentId) return;
+    const siblings = childrenByParent.get(img.parentId) || [];
+    siblings.push(img);
+    childrenByParent.set(img.parentId, siblings);
+  });
+
+  const build = (image: GeneratedImage, seen: Set<string>): LineageNode => {
+    seen.add(image.id);
+    const children = (childrenByParent.get(image.id) || [])
+      .filter(child => !seen.has(child.id))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return { image, children: children.map(child => build(child, seen)) };
+  };
+
+  return build(root, new Set());
+};
+
+export const countLineageNodes = (node: LineageNode): number => {
+  return 1 + node.children.reduce((total, child) => total + countLineageNodes(child), 0);
+};
+
+export interface EditPath {
+  commonAncestor?: GeneratedImage;
+  fromEdits: GeneratedImage[]; // Revisions from the common ancestor down to `from`, oldest first
+  toEdits: GeneratedImage[]; // Revisions from the common ancestor down to `to`, oldest first
+}
+
+// The edits separating two images. Each revision's `prompt` is the instruction that produced it.
+export const findEditPath = (images: GeneratedImage[], fromId: string, toId: string): EditPath => {
+  const byId = new Map(images.map(img => [img.id, img]));
+  const chain = (id: string): GeneratedImage[] => {
+    const self = byId.get(id);
+    return self ? [self, ...getAncestors(images, id)] : [];
+  };
+
+  const fromChain = chain(fromId);
+  const toChain = chain(toId);
+  const toIds = new Set(toChain.map(img => img.id));
+  const commonIndex = fromChain.findIndex(img => toIds.has(img.id));
+  if (commonIndex < 0) return { fromEdits: [], toEdits: [] };
+
+  const commonAncestor = fromChain[commonIndex];
+  return {
+    commonAncestor,
+    fromEdits: fromChain.slice(0, commonIndex).reverse(),
+    toEdits: toChain.slice(0, toChain.findIndex(img => img.id === commonAncestor.id)).reverse(),
+  };
+};
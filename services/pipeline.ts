@@ -0,0 +1,383 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BrandCheck, BrandKit, ComplexityLevel, EditRegion, GeneratedImage, GenerationSettings, InfographicSeries, Language, LocalizeMode, ReferenceImage, ResearchProgress, ResearchResult, VerificationReport, VisualStyle } from "../types";
+import { getGenerationModels } from "./config";
+import { snapshotPresets } from "./presets";
+import { buildImagePrompt } from "./researchPlan";
+import { CancelledError } from "./errors";
+import { createUsageMeter, UsageMeter } from "./usage";
+import { buildBrandCorrectionPrompt, checkBrandCompliance, getBrandKit, MAX_BRAND_FIX_ROUNDS, withBrandLogo } from "./brandKit";
+import { buildPanelPrompt, buildPanelResearch, createSeriesId } from "./series";
+import { researchTopicForPrompt, generateInfographicImage, editInfographicImage, translateResearch, verifyAndFixInfographic, verifyInfographicAccuracy, planInfographicSeries } from "./geminiService";
+
+export interface PipelineCallbacks {
+  onStep?: (step: number, message: string) => void;
+  onResearch?: (research: ResearchResult) => void;
+  onResearchProgress?: (progress: ResearchProgress) => void; // Live facts and sources while research streams
+  // Pauses after research so the user can edit the plan; resolves with the approved plan or rejects to cancel
+  onReviewPlan?: (research: ResearchResult) => Promise<ResearchResult>;
+}
+
+// Timestamp ids collide when several generations finish in the same millisecond
+export const createImageId = (): string => `${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+
+// Stops between steps once the run was cancelled; requests already in flight are aborted by the signal itself
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+// Palette check, plus recolor passes when the kit asks for automatic fixes
+export const enforceBrandKit = async (
+  imageData: string,
+  kit: BrandKit,
+  onStep?: PipelineCallbacks['onStep'],
+  signal?: AbortSignal,
+  usage?: UsageMeter
+): Promise<{ data: string; brandCheck: BrandCheck }> => {
+  let data = imageData;
+  let brandCheck = await checkBrandCompliance(data, kit);
+  let rounds = 0;
+  while (!brandCheck.isOnBrand && kit.autoFix && rounds < MAX_BRAND_FIX_ROUNDS) {
+    rounds++;
+    onStep?.(3, `Applying Brand Palette (Round ${rounds})...`);
+    data = await editInfographicImage(data, buildBrandCorrectionPrompt(brandCheck, kit), undefined, signal, usage);
+    brandCheck = await checkBrandCompliance(data, kit, rounds);
+  }
+  return { data, brandCheck };
+};
+
+// What an image is checked against, shared by the accuracy pass and the re-check after a recolor
+interface AccuracyTarget {
+  topic: string;
+  facts: string[];
+  level: ComplexityLevel;
+  style: VisualStyle;
+  language: Language;
+}
+
+// Recolor passes edit the whole image and can change text or numbers, so a recolored image is verified again.
+// No fix rounds follow, since a fix edit could undo the recolor.
+const enforceBrandKitVerified = async (
+  imageData: string,
+  verification: VerificationReport,
+  kit: BrandKit,
+  target: AccuracyTarget,
+  onStep?: PipelineCallbacks['onStep'],
+  signal?: AbortSignal,
+  usage?: UsageMeter
+): Promise<{ data: string; brandCheck: BrandCheck; verification: VerificationReport }> => {
+  const { data, brandCheck } = await enforceBrandKit(imageData, kit, onStep, signal, usage);
+  if (brandCheck.fixRounds === 0) return { data, brandCheck, verification };
+
+  throwIfAborted(signal);
+  onStep?.(3, `Re-verifying Recolored Image...`);
+  const result = await verifyInfographicAccuracy(data, target.topic, target.facts, target.level, target.style, target.language, signal, usage);
+  return { data, brandCheck, verification: { ...result, fixRounds: verification.fixRounds } };
+};
+
+// Research -> generate -> verify/fix, shared by the single-topic form and batch runs
+export const runGenerationPipeline = async (
+  topic: string,
+  settings: GenerationSettings,
+  context: string | null,
+  callbacks: PipelineCallbacks = {},
+  references: ReferenceImage[] = [],
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const { onStep, onResearch, onResearchProgress, onReviewPlan } = callbacks;
+  const brandKit = getBrandKit(settings.brandKitId);
+  const allReferences = withBrandLogo(references, brandKit);
+  const usage = createUsageMeter();
+
+  onStep?.(1, `Researching...`);
+  const researchResult = await researchTopicForPrompt(
+      topic,
+      settings.level,
+      settings.style,
+      settings.language,
+      context,
+      allReferences,
+      brandKit,
+      { signal, onProgress: onResearchProgress, usage }
+  );
+  onResearch?.(researchResult);
+
+  let plan = researchResult;
+  if (onReviewPlan) {
+    onStep?.(1, `Waiting for Plan Approval...`);
+    plan = await onReviewPlan(researchResult);
+    onResearch?.(plan);
+  }
+
+  throwIfAborted(signal);
+  onStep?.(2, `Designing Infographic...`);
+  const generatedData = await generateInfographicImage(buildImagePrompt(plan), settings.aspectRatio, settings.resolution, allReferences, brandKit, signal, usage);
+
+  throwIfAborted(signal);
+  onStep?.(3, `Verifying Accuracy...`);
+  const target: AccuracyTarget = { topic, facts: plan.facts.map(f => f.text), level: settings.level, style: settings.style, language: settings.language };
+  const { data: verifiedData, verification: checked } = await verifyAndFixInfographic(
+      generatedData,
+      target.topic,
+      target.facts,
+      target.level,
+      target.style,
+      target.language,
+      undefined,
+      (round) => onStep?.(3, `Fixing Inaccuracies (Round ${round})...`),
+      signal,
+      usage
+  );
+
+  let data = verifiedData;
+  let verification = checked;
+  let brandCheck: BrandCheck | undefined;
+  if (brandKit) {
+    onStep?.(3, `Checking Brand Compliance...`);
+    ({ data, brandCheck, verification } = await enforceBrandKitVerified(verifiedData, checked, brandKit, target, onStep, signal, usage));
+  }
+
+  return {
+    id: createImageId(),
+    data: data,
+    prompt: topic,
+    timestamp: Date.now(),
+    level: settings.level,
+    style: settings.style,
+    language: settings.language,
+    aspectRatio: settings.aspectRatio,
+    resolution: settings.resolution,
+    verification: verification,
+    research: plan,
+    revision: 0,
+    models: getGenerationModels(),
+    customPresets: snapshotPresets(settings.level, settings.style),
+    brandCheck,
+    usage: usage.summary()
+  };
+};
+
+// Builds a language variant from an image's stored research instead of researching the topic again
+export const runLocalizationPipeline = async (
+  source: GeneratedImage,
+  targetLanguage: Language,
+  mode: LocalizeMode,
+  callbacks: PipelineCallbacks = {},
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const { onStep, onResearch } = callbacks;
+  const brandKit = getBrandKit(source.brandCheck?.kitId);
+  if (!source.research) {
+    throw new Error("This infographic has no stored research to translate.");
+  }
+  const usage = createUsageMeter();
+
+  onStep?.(1, `Translating to ${targetLanguage}...`);
+  const translated = await translateResearch(source.research, targetLanguage, signal, usage);
+  onResearch?.(translated);
+
+  onStep?.(2, mode === 'edit' ? `Rewriting Labels in ${targetLanguage}...` : `Designing ${targetLanguage} Infographic...`);
+  const factList = translated.facts.map((f, i) => `${i + 1}. ${f.text}`).join('\n');
+  const generatedData = mode === 'edit'
+    ? await editInfographicImage(
+        source.data,
+        `Translate every text label in this infographic into ${targetLanguage}. Keep the layout, colors, icons and numbers unchanged. Use these translated facts for wording:\n${factList}`,
+        undefined,
+        signal,
+        usage
+      )
+    : await generateInfographicImage(buildImagePrompt(translated), source.aspectRatio || '16:9', source.resolution || '1K', withBrandLogo([], brandKit), brandKit, signal, usage);
+
+  throwIfAborted(signal);
+  onStep?.(3, `Verifying Accuracy...`);
+  const target: AccuracyTarget = { topic: translated.title || source.prompt, facts: translated.facts.map(f => f.text), level: source.level || 'Expert', style: source.style || 'Default', language: targetLanguage };
+  const { data: verifiedData, verification: checked } = await verifyAndFixInfographic(
+      generatedData,
+      target.topic,
+      target.facts,
+      target.level,
+      target.style,
+      target.language,
+      undefined,
+      (round) => onStep?.(3, `Fixing Inaccuracies (Round ${round})...`),
+      signal,
+      usage
+  );
+
+  // Variants stay under the source's brand kit, if it still exists
+  let data = verifiedData;
+  let verification = checked;
+  let brandCheck = source.brandCheck;
+  if (brandKit) {
+    onStep?.(3, `Checking Brand Compliance...`);
+    ({ data, brandCheck, verification } = await enforceBrandKitVerified(verifiedData, checked, brandKit, target, onStep, signal, usage));
+  }
+
+  return {
+    ...source,
+    id: createImageId(),
+    data: data,
+    timestamp: Date.now(),
+    language: targetLanguage,
+    verification: verification,
+    research: translated,
+    parentId: undefined,
+    // A translated copy is not the series panel, region edit or imported original it was made from
+    seriesPanel: undefined,
+    editRegion: undefined,
+    importedFromId: undefined,
+    revision: 0,
+    variantOf: source.variantOf || source.id,
+    models: getGenerationModels(),
+    brandCheck,
+    usage: usage.summary()
+  };
+};
+
+// A new revision of `source`; the edit inherits the source's settings, research and brand kit
+export const runEditPipeline = async (
+  source: GeneratedImage,
+  instruction: string,
+  region?: EditRegion,
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const usage = createUsageMeter();
+  const data = await editInfographicImage(source.data, instruction, region, signal, usage);
+  // Edits stay under the brand kit's palette check, but are never recolored automatically
+  const brandKit = getBrandKit(source.brandCheck?.kitId);
+  const brandCheck = brandKit ? await checkBrandCompliance(data, brandKit) : source.brandCheck;
+
+  return {
+    id: createImageId(),
+    data,
+    prompt: instruction,
+    timestamp: Date.now(),
+    level: source.level,
+    style: source.style,
+    language: source.language,
+    aspectRatio: source.aspectRatio,
+    resolution: source.resolution,
+    research: source.research,
+    parentId: source.id,
+    revision: (source.revision ?? 0) + 1,
+    models: getGenerationModels(),
+    editRegion: region,
+    customPresets: source.customPresets,
+    brandCheck,
+    usage: usage.summary()
+  };
+};
+
+// Research the topic once, then split it into panels that share a style guide
+export const runSeriesPlanPipeline = async (
+  topic: string,
+  settings: GenerationSettings,
+  panelCount: number,
+  callbacks: PipelineCallbacks = {},
+  signal?: AbortSignal
+): Promise<InfographicSeries> => {
+  const { onStep, onResearch, onResearchProgress } = callbacks;
+  const brandKit = getBrandKit(settings.brandKitId);
+  const usage = createUsageMeter();
+
+  onStep?.(1, `Researching...`);
+  const research = await researchTopicForPrompt(
+      topic,
+      settings.level,
+      settings.style,
+      settings.language,
+      null,
+      withBrandLogo([], brandKit),
+      brandKit,
+      { signal, onProgress: onResearchProgress, usage }
+  );
+  onResearch?.(research);
+
+  throwIfAborted(signal);
+  onStep?.(2, `Outlining ${panelCount} Panels...`);
+  const plan = await planInfographicSeries(research, panelCount, settings.level, settings.style, settings.language, brandKit, signal, usage);
+
+  const now = Date.now();
+  return {
+    id: createSeriesId(),
+    topic,
+    title: plan.title,
+    settings,
+    research,
+    styleGuide: plan.styleGuide,
+    panels: plan.panels.map(panel => ({ ...panel, id: createSeriesId() })),
+    planningUsage: usage.summary(),
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// One panel of a series; `styleAnchor` is an already generated panel the new one must visually match
+export const runSeriesPanelPipeline = async (
+  series: InfographicSeries,
+  panelId: string,
+  styleAnchor?: GeneratedImage,
+  callbacks: PipelineCallbacks = {},
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
+  const { onStep } = callbacks;
+  const panel = series.panels.find(p => p.id === panelId);
+  if (!panel) {
+    throw new Error("This panel is no longer part of the series.");
+  }
+  const { settings } = series;
+  const brandKit = getBrandKit(settings.brandKitId);
+  const anchorReferences: ReferenceImage[] = styleAnchor ? [{ name: 'Earlier panel of this series', data: styleAnchor.data, role: 'style' }] : [];
+  const references = withBrandLogo(anchorReferences, brandKit);
+  const usage = createUsageMeter();
+
+  onStep?.(2, `Designing Panel...`);
+  const generatedData = await generateInfographicImage(buildPanelPrompt(series, panel), settings.aspectRatio, settings.resolution, references, brandKit, signal, usage);
+
+  throwIfAborted(signal);
+  onStep?.(3, `Verifying Accuracy...`);
+  const target: AccuracyTarget = { topic: `${series.title}: ${panel.title}`, facts: panel.facts.map(f => f.text), level: settings.level, style: settings.style, language: settings.language };
+  const { data: verifiedData, verification: checked } = await verifyAndFixInfographic(
+      generatedData,
+      target.topic,
+      target.facts,
+      target.level,
+      target.style,
+      target.language,
+      undefined,
+      (round) => onStep?.(3, `Fixing Inaccuracies (Round ${round})...`),
+      signal,
+      usage
+  );
+
+  let data = verifiedData;
+  let verification = checked;
+  let brandCheck: BrandCheck | undefined;
+  if (brandKit) {
+    onStep?.(3, `Checking Brand Compliance...`);
+    ({ data, brandCheck, verification } = await enforceBrandKitVerified(verifiedData, checked, brandKit, target, onStep, signal, usage));
+  }
+
+  return {
+    id: createImageId(),
+    data: data,
+    prompt: `${series.title}: ${panel.title}`,
+    timestamp: Date.now(),
+    level: settings.level,
+    style: settings.style,
+    language: settings.language,
+    aspectRatio: settings.aspectRatio,
+    resolution: settings.resolution,
+    verification: verification,
+    research: buildPanelResearch(series, panel),
+    revision: 0,
+    collection: { id: series.id, name: series.title },
+    seriesPanel: { seriesId: series.id, panelId: panel.id },
+    models: getGenerationModels(),
+    customPresets: snapshotPresets(settings.level, settings.style),
+    brandCheck,
+    usage: usage.summary()
+  };
+};
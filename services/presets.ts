@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ComplexityLevel, CustomPreset, CustomPresetId, PresetKind, VisualStyle } from "../types";
+
+const PRESETS_STORAGE_KEY = 'infogenius_custom_presets';
+export const PRESET_FILE_VERSION = 1;
+const THUMBNAIL_SIZE = 256;
+
+export const isCustomPresetId = (value: string | undefined): value is CustomPresetId =>
+  typeof value === 'string' && value.startsWith('custom:');
+
+export const createPresetId = (): CustomPresetId => `custom:${Math.random().toString(36).substr(2, 9)}`;
+
+export const listPresets = (kind?: PresetKind): CustomPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const presets: CustomPreset[] = saved ? JSON.parse(saved) : [];
+    return kind ? presets.filter(preset => preset.kind === kind) : presets;
+  } catch (e) {
+    console.error("Failed to parse saved presets", e);
+    return [];
+  }
+};
+
+const writePresets = (presets: CustomPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const getPreset = (id: string): CustomPreset | undefined => listPresets().find(preset => preset.id === id);
+
+export const savePreset = (preset: CustomPreset) => {
+  const others = listPresets().filter(existing => existing.id !== preset.id);
+  writePresets([...others, { ...preset, updatedAt: Date.now() }]);
+};
+
+export const deletePreset = (id: string) => {
+  writePresets(listPresets().filter(preset => preset.id !== id));
+};
+
+export const findPresetByName = (kind: PresetKind, name: string): CustomPreset | undefined => {
+  const needle = name.trim().toLowerCase();
+  return listPresets(kind).find(preset => preset.name.toLowerCase() === needle);
+};
+
+// Display name for a level or style; images carry copies of their presets so deleted ones still show a name
+export const presetLabel = (value: ComplexityLevel | VisualStyle, snapshots: CustomPreset[] = []): string => {
+  if (!isCustomPresetId(value)) return value;
+  return (snapshots.find(p => p.id === value) || getPreset(value))?.name || 'Custom preset';
+};
+
+// Copies of the custom presets a generation used, stored on the image for provenance
+export const snapshotPresets = (...values: (string | undefined)[]): CustomPreset[] | undefined => {
+  const presets = values
+    .filter(isCustomPresetId)
+    .map(id => getPreset(id))
+    .filter((preset): preset is CustomPreset => !!preset)
+    .map(({ thumbnail, ...rest }) => rest);
+  return presets.length > 0 ? presets : undefined;
+};
+
+export const resolvePresetPrompt = (id: CustomPresetId): string | undefined => getPreset(id)?.prompt;
+
+export const exportPresetsFile = (presets: CustomPreset[]): Blob =>
+  new Blob([JSON.stringify({ version: PRESET_FILE_VERSION, presets }, null, 2)], { type: 'application/json' });
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPresetKind = (value: unknown): value is PresetKind => value === 'audience' || value === 'style';
+
+const parsePresetItem = (item: unknown): CustomPreset | null => {
+  if (!isRecord(item) || !isPresetKind(item.kind) || typeof item.name !== 'string' || typeof item.prompt !== 'string') return null;
+  const { id, thumbnail } = item;
+  return {
+    id: typeof id === 'string' && isCustomPresetId(id) ? id : createPresetId(),
+    kind: item.kind,
+    name: item.name.trim(),
+    prompt: item.prompt,
+    thumbnail: typeof thumbnail === 'string' && thumbnail.startsWith('data:image/') ? thumbnail : undefined,
+    updatedAt: Date.now(),
+  };
+};
+
+// Imported presets keep their ids, so re-importing a teammate's updated file replaces the old copies.
+// Local presets the file would change are only replaced if `confirmReplace` agrees; otherwise they are kept and skipped.
+export const importPresetsFile = (text: string, confirmReplace: (replaced: CustomPreset[]) => boolean): CustomPreset[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The preset file is not valid JSON.");
+  }
+  const items = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.presets : undefined;
+  if (!Array.isArray(items)) throw new Error("The preset file does not contain a presets list.");
+
+  let imported = items.map(parsePresetItem).filter((preset): preset is CustomPreset => preset !== null);
+  if (imported.length === 0) throw new Error("No valid presets were found in the file.");
+
+  const local = listPresets();
+  const replaced = local.filter(existing => imported.some(preset =>
+    preset.id === existing.id && (preset.kind !== existing.kind || preset.name !== existing.name || preset.prompt !== existing.prompt)));
+  if (replaced.length > 0 && !confirmReplace(replaced)) {
+    const keptIds = new Set(replaced.map(preset => preset.id));
+    imported = imported.filter(preset => !keptIds.has(preset.id));
+  }
+
+  const importedIds = new Set(imported.map(preset => preset.id));
+  writePresets([...local.filter(preset => !importedIds.has(preset.id)), ...imported]);
+  return imported;
+};
+
+// Thumbnails are downscaled so a handful of presets fit comfortably in localStorage
+export const createThumbnail = (source: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.naturalWidth * scale);
+      canvas.height = Math.round(img.naturalHeight * scale);
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    img.onerror = () => reject(new Error("Could not read the thumbnail image."));
+    img.src = source;
+  });
+};
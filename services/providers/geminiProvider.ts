@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, GenerateContentResponseUsageMetadata, GroundingChunk, Part } from "@google/genai";
+import { SearchResultItem, TokenUsage } from "../../types";
+import { ProviderConfig } from "../config";
+import { NoImageError, RecitationError, SafetyBlockError } from "../errors";
+import { withRetry } from "../retry";
+import { EditRequest, ImageRequest, ImageUsageCallback, InfographicProvider, TextGroundingSupport, TextRequest, TextResponse, TextStreamProgress } from "./provider";
+
+// Create a fresh client for every request to ensure the latest API key from process.env.API_KEY is used
+const getAi = () => {
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+const toInlinePart = (dataUrl: string): Part => {
+  const mimeType = dataUrl.match(/^data:([^;]+);base64,/)?.[1] || 'image/png';
+  const data = dataUrl.replace(/^data:[^;]+;base64,/, '');
+  return { inlineData: { mimeType, data } };
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'BLOCKLIST', 'SPII'];
+
+// Blocked responses come back as successes, so they have to be detected from the payload
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(String(blockReason), `The request was blocked by safety filters (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(String(finishReason))) {
+    throw new SafetyBlockError(String(finishReason), `The response was blocked by safety filters (${finishReason}).`);
+  }
+  if (finishReason && String(finishReason) === 'RECITATION') {
+    throw new RecitationError('The response was stopped because it repeated a source too closely (RECITATION).');
+  }
+};
+
+// Fix: Iterate through parts to find the image part, do not assume it is the first part.
+const extractImage = (response: GenerateContentResponse, failureMessage: string): string => {
+  assertNotBlocked(response);
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData && part.inlineData.data) {
+      return `data:image/png;base64,${part.inlineData.data}`;
+    }
+  }
+  throw new NoImageError(failureMessage);
+};
+
+const toTokenUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage => ({
+  promptTokens: metadata?.promptTokenCount ?? 0,
+  outputTokens: metadata?.candidatesTokenCount ?? 0,
+  thinkingTokens: metadata?.thoughtsTokenCount ?? 0,
+});
+
+// Blocked and empty responses are billed too, so usage is reported before the response is checked
+const extractBilledImage = (response: GenerateContentResponse, failureMessage: string, onUsage?: ImageUsageCallback): string => {
+  const usage = toTokenUsage(response.usageMetadata);
+  let image: string;
+  try {
+    image = extractImage(response, failureMessage);
+  } catch (err) {
+    onUsage?.(usage, false);
+    throw err;
+  }
+  onUsage?.(usage, true);
+  return image;
+};
+
+const toSearchResult = (chunk: GroundingChunk): SearchResultItem | null =>
+  chunk.web?.uri && chunk.web?.title ? { title: chunk.web.title, url: chunk.web.uri } : null;
+
+// Grounding metadata can arrive spread over several stream chunks, each indexing its own chunk list,
+// so sources are merged by URL and support indices re-pointed onto the merged list
+const streamText = async (params: GenerateContentParameters, request: TextRequest): Promise<TextResponse> => {
+  const stream = await getAi().models.generateContentStream(params);
+  let text = '';
+  let outputTokens = 0;
+  // Each chunk carries the running totals, so the last one has the final counts
+  let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+  const groundingChunks: (SearchResultItem | null)[] = [];
+  const groundingSupports: TextGroundingSupport[] = [];
+  let indexMap: number[] = [];
+
+  try {
+    for await (const chunk of stream) {
+      usageMetadata = chunk.usageMetadata ?? usageMetadata;
+      assertNotBlocked(chunk);
+      text += chunk.text || '';
+      outputTokens = chunk.usageMetadata?.candidatesTokenCount ?? Math.ceil(text.length / 4);
+
+      const metadata = chunk.candidates?.[0]?.groundingMetadata;
+      if (metadata?.groundingChunks?.length) {
+        indexMap = metadata.groundingChunks.map(groundingChunk => {
+          const item = toSearchResult(groundingChunk);
+          const existing = item ? groundingChunks.findIndex(entry => entry?.url === item.url) : -1;
+          if (existing >= 0) return existing;
+          groundingChunks.push(item);
+          return groundingChunks.length - 1;
+        });
+      }
+      (metadata?.groundingSupports || []).forEach(support => groundingSupports.push({
+        text: support.segment?.text || '',
+        chunkIndices: (support.groundingChunkIndices || []).map(i => indexMap[i]).filter((i): i is number => i !== undefined)
+      }));
+
+      request.onProgress?.({
+        text,
+        sources: groundingChunks.filter((item): item is SearchResultItem => item !== null),
+        outputTokens
+      });
+    }
+  } catch (err) {
+    // A stream that was blocked or dropped part-way is still billed for what it produced
+    if (usageMetadata) request.onUsage?.(toTokenUsage(usageMetadata));
+    throw err;
+  }
+  request.onUsage?.(toTokenUsage(usageMetadata));
+  return { text, groundingChunks, groundingSupports };
+};
+
+export const createGeminiProvider = (config: ProviderConfig): InfographicProvider => ({
+  id: 'gemini',
+
+  generateText: (request: TextRequest): Promise<TextResponse> => withRetry(async () => {
+    const params: GenerateContentParameters = {
+      model: config.textModel,
+      contents: request.images && request.images.length > 0
+        ? { parts: [...request.images.map(toInlinePart), { text: request.prompt }] }
+        : request.prompt,
+      config: {
+        tools: request.useSearch ? [{ googleSearch: {} }] : undefined,
+        responseMimeType: request.responseSchema ? 'application/json' : undefined,
+        responseSchema: request.responseSchema,
+        abortSignal: request.signal,
+      },
+    };
+    if (request.onProgress) {
+      return streamText(params, request);
+    }
+
+    const response = await getAi().models.generateContent(params);
+    request.onUsage?.(toTokenUsage(response.usageMetadata));
+    assertNotBlocked(response);
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    return {
+      text: response.text || "",
+      groundingChunks: (groundingMetadata?.groundingChunks || []).map(toSearchResult),
+      groundingSupports: (groundingMetadata?.groundingSupports || []).map(support => ({
+        text: support.segment?.text || '',
+        chunkIndices: support.groundingChunkIndices || []
+      })),
+    };
+  }),
+
+  generateImage: (request: ImageRequest): Promise<string> => withRetry(async () => {
+    const response = await getAi().models.generateContent({
+      model: config.imageModel,
+      contents: {
+        parts: [...(request.images || []).map(toInlinePart), { text: request.prompt }]
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: request.aspectRatio,
+          imageSize: request.resolution
+        },
+        abortSignal: request.signal,
+      }
+    });
+    return extractBilledImage(response, "Failed to generate image", request.onUsage);
+  }),
+
+  editImage: (request: EditRequest): Promise<string> => withRetry(async () => {
+    const response = await getAi().models.generateContent({
+      model: config.editModel,
+      contents: {
+        parts: [
+          toInlinePart(request.image),
+          ...(request.mask ? [toInlinePart(request.mask)] : []),
+          { text: request.instruction }
+        ]
+      },
+      config: { abortSignal: request.signal }
+    });
+    return extractBilledImage(response, "Failed to edit image", request.onUsage);
+  }),
+});
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getProviderConfig } from "../config";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { InfographicProvider } from "./provider";
+
+export type { InfographicProvider, ProviderId, TextRequest, TextResponse, TextStreamProgress, ImageRequest, EditRequest } from "./provider";
+
+// Resolved per call so config changes apply without a reload
+export const getProvider = (): InfographicProvider => {
+  const config = getProviderConfig();
+  switch (config.provider) {
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(config);
+  }
+};
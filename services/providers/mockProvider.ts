@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio, SearchResultItem, TokenUsage } from "../../types";
+import { EditRequest, ImageRequest, InfographicProvider, TextRequest, TextResponse } from "./provider";
+
+// Offline backend for development: canned research and canvas-drawn placeholder images.
+// Output depends only on the request, so the same input always produces the same result.
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNKS = 8;
+
+// Rejects the way fetch does when the signal fires, so cancellation can be exercised offline
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+  if (signal?.aborted) return abort();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); abort(); }, { once: true });
+});
+
+// Rough 4-characters-per-token counts so the usage dashboard has something to show offline
+const estimateUsage = (prompt: string, output: string): TokenUsage => ({
+  promptTokens: Math.ceil(prompt.length / 4),
+  outputTokens: Math.ceil(output.length / 4),
+  thinkingTokens: 0,
+});
+
+// FNV-1a, enough to derive stable colors and picks from a prompt
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'topic';
+
+const mockResearch = (prompt: string): TextResponse => {
+  const topic = prompt.match(/research the topic: "([^"]*)"/)?.[1] || 'the requested topic';
+  const language = prompt.match(/Language: (\w+)/)?.[1] || 'English';
+  const slug = slugify(topic);
+
+  const sources = [1, 2, 3].map(n => ({
+    title: `Mock Reference ${n}: ${topic}`,
+    url: `https://example.org/mock/${slug}/${n}`
+  }));
+
+  const facts = [
+    `${topic} can be explained through three core ideas.`,
+    `The earliest recorded study of ${topic} dates back several centuries.`,
+    `Researchers estimate that 42% of introductory courses cover ${topic}.`,
+    `${topic} is closely connected to at least five neighbouring fields.`,
+    `Open questions about ${topic} remain an active research area.`,
+  ];
+
+  const body = {
+    title: `Understanding ${topic}`,
+    facts: facts.map((text, i) => ({ text, sourceIndices: [i % sources.length] })),
+    sections: [
+      { heading: 'Overview', summary: `What ${topic} is and why it matters.` },
+      { heading: 'Key Mechanisms', summary: `How ${topic} works, step by step.` },
+      { heading: 'Impact', summary: `Where ${topic} shows up in the real world.` },
+    ],
+    keyNumbers: [
+      { label: 'Core ideas', value: '3' },
+      { label: 'Course coverage', value: '42%' },
+    ],
+    sources,
+    imagePrompt: `Mock infographic about ${topic} in ${language} with three panels: Overview, Key Mechanisms, Impact.`
+  };
+
+  return {
+    text: JSON.stringify(body),
+    groundingChunks: sources,
+    // The last fact is left without support so the unverified state can be exercised offline
+    groundingSupports: facts.slice(0, -1).map((text, i) => ({ text, chunkIndices: [i % sources.length] })),
+  };
+};
+
+// Deals the listed facts round-robin across the requested number of panels
+const mockSeries = (prompt: string): TextResponse => {
+  const title = prompt.match(/together explain: "([^"]*)"/)?.[1] || 'the requested topic';
+  const panelCount = parseInt(prompt.match(/into exactly (\d+) panels/)?.[1] || '3', 10);
+  const factsBlock = prompt.slice(prompt.indexOf('Researched facts'), prompt.indexOf('Sections:'));
+  const factCount = (factsBlock.match(/^\s*\d+\. /gm) || []).length;
+  const hue = hashString(title) % 360;
+
+  const body = {
+    title: `${title}: The Series`,
+    styleGuide: {
+      palette: ['#0f172a', '#0891b2', '#f59e0b', '#f8fafc'],
+      typography: 'Bold geometric sans-serif headings, light sans-serif body text',
+      motifs: ['Numbered circle badge in the top-left corner', `Thin hue-${hue} border around every chart`],
+      description: `Mock series style for ${title}: dark navy backgrounds with cyan and amber accents.`
+    },
+    panels: Array.from({ length: panelCount }, (_, i) => ({
+      title: `Part ${i + 1}`,
+      factIndices: Array.from({ length: factCount }, (_, f) => f).filter(f => f % panelCount === i),
+      imagePrompt: `Mock panel ${i + 1} of ${panelCount} about ${title}.`
+    }))
+  };
+  return { text: JSON.stringify(body), groundingChunks: [], groundingSupports: [] };
+};
+
+// The plan fields translateResearch embeds in its prompt
+interface TranslationSource {
+  title?: string;
+  facts?: string[];
+  sections?: { heading: string; summary: string }[];
+  keyNumberLabels?: string[];
+  imagePrompt?: string;
+}
+
+const mockTranslate = (prompt: string): TextResponse => {
+  const language = prompt.match(/infographic plan into (\w+)/)?.[1] || 'Translated';
+  const jsonStart = prompt.indexOf('{');
+  const jsonEnd = prompt.lastIndexOf('}');
+  let source: TranslationSource = {};
+  try {
+    source = JSON.parse(prompt.slice(jsonStart, jsonEnd + 1));
+  } catch {
+    source = {};
+  }
+
+  const tag = (value: unknown) => typeof value === 'string' ? `[${language}] ${value}` : value;
+  const body = {
+    title: tag(source.title || ''),
+    facts: (source.facts || []).map(tag),
+    sections: (source.sections || []).map(s => ({ heading: tag(s.heading), summary: tag(s.summary) })),
+    keyNumberLabels: (source.keyNumberLabels || []).map(tag),
+    imagePrompt: tag(source.imagePrompt || '')
+  };
+  return { text: JSON.stringify(body), groundingChunks: [], groundingSupports: [] };
+};
+
+// Keeps the first line of each paragraph so the output is visibly shorter but still traceable to the input
+const mockSummarize = (prompt: string): TextResponse => {
+  const excerpt = prompt.slice(prompt.indexOf('---') + 3).trim();
+  const lines = excerpt.split(/\n\s*\n/).map(paragraph => paragraph.trim().split('\n')[0]).filter(Boolean);
+  return { text: lines.map(line => `- ${line.slice(0, 200)}`).join('\n'), groundingChunks: [], groundingSupports: [] };
+};
+
+const mockVerify = (): TextResponse => ({
+  text: JSON.stringify({ isAccurate: true, critique: "Mock verification: no issues found.", issues: [] }),
+  groundingChunks: [],
+  groundingSupports: [],
+});
+
+const ASPECT_DIMENSIONS: Record<AspectRatio, [number, number]> = {
+  '1:1': [1024, 1024],
+  '2:3': [832, 1248],
+  '3:2': [1248, 832],
+  '3:4': [864, 1152],
+  '4:3': [1152, 864],
+  '9:16': [768, 1344],
+  '16:9': [1344, 768],
+  '21:9': [1536, 672],
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available for the mock provider");
+  return { canvas, ctx };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Mock provider could not decode the source image"));
+    img.src = src;
+  });
+};
+
+const mockGenerateImage = async (request: ImageRequest): Promise<string> => {
+  const [width, height] = ASPECT_DIMENSIONS[request.aspectRatio] || ASPECT_DIMENSIONS['16:9'];
+  const { canvas, ctx } = createCanvas(width, height);
+  const hue = hashString(request.prompt) % 360;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 22%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 12%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Three placeholder panels so layouts look roughly like an infographic
+  ctx.strokeStyle = `hsla(${hue}, 80%, 70%, 0.5)`;
+  ctx.lineWidth = 3;
+  const panelWidth = (width - 160) / 3;
+  for (let i = 0; i < 3; i++) {
+    ctx.strokeRect(40 + i * (panelWidth + 40), height * 0.45, panelWidth, height * 0.4);
+  }
+
+  // Reference images fill the panels so it is visible offline that they reached the image request
+  const references = await Promise.all((request.images || []).slice(0, 3).map(loadImage));
+  references.forEach((img, i) => {
+    const scale = Math.min(panelWidth / img.naturalWidth, (height * 0.4) / img.naturalHeight);
+    ctx.drawImage(img, 40 + i * (panelWidth + 40), height * 0.45, img.naturalWidth * scale, img.naturalHeight * scale);
+  });
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(width / 28)}px sans-serif`;
+  wrapText(ctx, request.prompt, width - 80).slice(0, 4).forEach((line, i) => {
+    ctx.fillText(line, 40, 80 + i * (width / 24));
+  });
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = `${Math.round(width / 60)}px monospace`;
+  ctx.fillText(`MOCK PROVIDER · ${request.aspectRatio} · ${request.resolution}`, 40, height - 30);
+
+  return canvas.toDataURL('image/png');
+};
+
+const mockEditImage = async (request: EditRequest): Promise<string> => {
+  const source = await loadImage(request.image);
+  const { canvas, ctx } = createCanvas(source.naturalWidth, source.naturalHeight);
+  ctx.drawImage(source, 0, 0);
+
+  // A masked edit tints everything, like a model that ignores the mask; only the region survives compositing
+  if (request.mask) {
+    ctx.fillStyle = `hsla(${hashString(request.instruction) % 360}, 70%, 50%, 0.45)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  }
+
+  const bannerHeight = Math.round(canvas.height * 0.12);
+  ctx.fillStyle = `hsla(${hashString(request.instruction) % 360}, 70%, 40%, 0.85)`;
+  ctx.fillRect(0, canvas.height - bannerHeight, canvas.width, bannerHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(bannerHeight / 3.5)}px sans-serif`;
+  const [firstLine] = wrapText(ctx, `EDIT: ${request.instruction}`, canvas.width - 60);
+  ctx.fillText(firstLine || 'EDIT', 30, canvas.height - bannerHeight / 2 + bannerHeight / 8);
+
+  return canvas.toDataURL('image/png');
+};
+
+const mockTextResponse = (request: TextRequest): TextResponse => {
+  switch (request.task) {
+    case 'research': return mockResearch(request.prompt);
+    case 'series': return mockSeries(request.prompt);
+    case 'translate': return mockTranslate(request.prompt);
+    case 'verify': return mockVerify();
+    case 'summarize': return mockSummarize(request.prompt);
+  }
+};
+
+// Replays a canned response in slices, revealing sources along the way like a grounded stream would
+const mockStream = async (response: TextResponse, request: TextRequest): Promise<TextResponse> => {
+  const sources = response.groundingChunks.filter((item): item is SearchResultItem => item !== null);
+  for (let i = 1; i <= MOCK_STREAM_CHUNKS; i++) {
+    await delay(MOCK_LATENCY_MS / 2, request.signal);
+    const text = response.text.slice(0, Math.ceil(response.text.length * i / MOCK_STREAM_CHUNKS));
+    request.onProgress?.({
+      text,
+      sources: sources.slice(0, Math.ceil(sources.length * i / MOCK_STREAM_CHUNKS)),
+      outputTokens: Math.ceil(text.length / 4)
+    });
+  }
+  return response;
+};
+
+export const createMockProvider = (): InfographicProvider => ({
+  id: 'mock',
+
+  generateText: async (request: TextRequest): Promise<TextResponse> => {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    const response = request.onProgress ? await mockStream(mockTextResponse(request), request) : mockTextResponse(request);
+    request.onUsage?.(estimateUsage(request.prompt, response.text));
+    return response;
+  },
+
+  generateImage: async (request: ImageRequest): Promise<string> => {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    const image = await mockGenerateImage(request);
+    request.onUsage?.(estimateUsage(request.prompt, ''), true);
+    return image;
+  },
+
+  editImage: async (request: EditRequest): Promise<string> => {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    const image = await mockEditImage(request);
+    request.onUsage?.(estimateUsage(request.instruction, ''), true);
+    return image;
+  },
+});
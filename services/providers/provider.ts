@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Schema } from "@google/genai";
+import { AspectRatio, ImageResolution, SearchResultItem, TokenUsage } from "../../types";
+
+export type ProviderId = 'gemini' | 'mock';
+
+export type TextTask = 'research' | 'series' | 'verify' | 'translate' | 'summarize';
+
+export interface TextRequest {
+  task: TextTask;
+  prompt: string;
+  images?: string[]; // Base64 data URLs sent alongside the prompt
+  useSearch?: boolean;
+  responseSchema?: Schema;
+  signal?: AbortSignal;
+  onProgress?: (progress: TextStreamProgress) => void; // When set, the response is streamed and reported as it arrives
+  onUsage?: (usage: TokenUsage) => void; // Called once per billed attempt, including blocked and retried ones
+}
+
+export interface TextStreamProgress {
+  text: string; // Response text received so far
+  sources: SearchResultItem[]; // Grounding sources seen so far, deduplicated by URL
+  outputTokens: number;
+}
+
+export interface TextGroundingSupport {
+  text: string;
+  chunkIndices: number[];
+}
+
+export interface TextResponse {
+  text: string;
+  // Positional: a null entry keeps support chunk indices aligned when a chunk has no usable web source
+  groundingChunks: (SearchResultItem | null)[];
+  groundingSupports: TextGroundingSupport[];
+}
+
+// Called once per billed attempt, including ones that returned no image
+export type ImageUsageCallback = (usage: TokenUsage, returnedImage: boolean) => void;
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+  images?: string[]; // Base64 data URLs of reference images, in the order the prompt refers to them
+  signal?: AbortSignal;
+  onUsage?: ImageUsageCallback;
+}
+
+export interface EditRequest {
+  image: string; // Base64 data URL of the image being edited
+  instruction: string;
+  mask?: string; // Base64 data URL, white where changes are allowed
+  signal?: AbortSignal;
+  onUsage?: ImageUsageCallback;
+}
+
+// Everything the infographic pipeline needs from a model backend: research and analysis, generation and editing
+export interface InfographicProvider {
+  readonly id: ProviderId;
+  generateText(request: TextRequest): Promise<TextResponse>;
+  generateImage(request: ImageRequest): Promise<string>;
+  editImage(request: EditRequest): Promise<string>;
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { KeyNumber, ResearchFact, ResearchResult, ResearchSection } from "../types";
+
+// Research as older archives stored it: plain-string facts, facts without grounding, and no title, sections or key numbers
+export type StoredResearch = Omit<ResearchResult, 'title' | 'facts' | 'sections' | 'keyNumbers'> & {
+  title?: string;
+  facts: (string | (Omit<ResearchFact, 'groundingIndices'> & { groundingIndices?: number[] }))[];
+  sections?: ResearchSection[];
+  keyNumbers?: KeyNumber[];
+};
+
+// Applied when archives are read, so every caller can rely on the current shape
+export const normalizeResearch = (research: StoredResearch): ResearchResult => ({
+  ...research,
+  title: research.title ?? '',
+  facts: research.facts.map(fact => typeof fact === 'string'
+    ? { text: fact, sourceIndices: [], groundingIndices: [] }
+    : { ...fact, groundingIndices: fact.groundingIndices ?? [] }),
+  sections: research.sections ?? [],
+  keyNumbers: research.keyNumbers ?? [],
+});
+
+// Drops the given sources and re-points every fact citation onto the sources that remain
+export const removeSources = (research: ResearchResult, removed: Set<number>): ResearchResult => {
+  if (removed.size === 0) return research;
+  const remap = new Map<number, number>();
+  research.searchResults.forEach((_, index) => {
+    if (!removed.has(index)) remap.set(index, remap.size);
+  });
+  const reindex = (indices: number[]) => indices.filter(i => remap.has(i)).map(i => remap.get(i)!);
+
+  return {
+    ...research,
+    searchResults: research.searchResults.filter((_, index) => !removed.has(index)),
+    facts: research.facts.map(fact => ({
+      ...fact,
+      sourceIndices: reindex(fact.sourceIndices),
+      groundingIndices: reindex(fact.groundingIndices),
+    })),
+  };
+};
+
+// Trims the edited plan and stamps it as reviewed
+export const approvePlan = (plan: ResearchResult): ResearchResult => ({
+  ...plan,
+  title: plan.title.trim(),
+  imagePrompt: plan.imagePrompt.trim(),
+  facts: plan.facts
+    .map(fact => ({ ...fact, text: fact.text.trim() }))
+    .filter(fact => fact.text.length > 0),
+  reviewedAt: Date.now(),
+});
+
+// The composition prompt was written before the review, so approved facts are appended to keep edits in the image
+export const buildImagePrompt = (plan: ResearchResult): string => {
+  if (!plan.reviewedAt || plan.facts.length === 0) return plan.imagePrompt;
+  const factList = plan.facts.map((fact, i) => `${i + 1}. ${fact.text}`).join('\n');
+  return `${plan.imagePrompt}\n\nThe infographic must present exactly these facts, in this order, and no others:\n${factList}`;
+};
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { InfoGeniusError, classifyError } from "./errors";
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: InfoGeniusError, attempt: number, delayMs: number) => void;
+}
+
+const DEFAULT_RETRY: Required<Omit<RetryOptions, 'onRetry'>> = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Full jitter: a random delay between zero and the exponential cap spreads out concurrent retries
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const cap = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * cap);
+};
+
+// Runs `fn`, retrying retryable failures. Whatever is finally thrown is an InfoGeniusError.
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const classified = classifyError(err);
+      if (!classified.retryable || attempt >= maxAttempts) {
+        throw classified;
+      }
+      const delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      options.onRetry?.(classified, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
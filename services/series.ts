@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage, InfographicSeries, ResearchResult, SeriesPanel, SeriesStyleGuide } from "../types";
+
+export const MIN_SERIES_PANELS = 2;
+export const MAX_SERIES_PANELS = 8;
+export const DEFAULT_SERIES_PANELS = 4;
+
+export const createSeriesId = (): string => Math.random().toString(36).substr(2, 9);
+
+export const describeStyleGuide = (guide: SeriesStyleGuide): string => {
+  const lines = ['SERIES STYLE GUIDE (identical on every panel of the series):'];
+  if (guide.description) lines.push(`Art direction: ${guide.description}`);
+  if (guide.palette.length > 0) lines.push(`Palette: use only ${guide.palette.join(', ')}, in the same roles on every panel.`);
+  if (guide.typography) lines.push(`Typography: ${guide.typography}`);
+  if (guide.motifs.length > 0) lines.push(`Recurring motifs that must appear: ${guide.motifs.join('; ')}`);
+  return lines.join('\n');
+};
+
+// Panels can be reordered later, so the position is context for the model rather than something to print
+export const buildPanelPrompt = (series: InfographicSeries, panel: SeriesPanel): string => {
+  const index = series.panels.findIndex(p => p.id === panel.id);
+  const factList = panel.facts.map((fact, i) => `${i + 1}. ${fact.text}`).join('\n');
+  return [
+    panel.imagePrompt,
+    `This is panel ${index + 1} of ${series.panels.length} in the infographic series "${series.title}", and its headline is "${panel.title}". Do not print panel numbers.`,
+    factList ? `The panel must present exactly these facts, and no others:\n${factList}` : '',
+    describeStyleGuide(series.styleGuide),
+  ].filter(Boolean).join('\n\n');
+};
+
+// Panel images keep the shared sources so fact citations still resolve
+export const buildPanelResearch = (series: InfographicSeries, panel: SeriesPanel): ResearchResult => ({
+  title: panel.title,
+  imagePrompt: panel.imagePrompt,
+  facts: panel.facts,
+  sections: [],
+  keyNumbers: [],
+  searchResults: series.research.searchResults,
+});
+
+export const moveSeriesPanel = (series: InfographicSeries, panelId: string, offset: number): InfographicSeries => {
+  const from = series.panels.findIndex(p => p.id === panelId);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= series.panels.length) return series;
+  const panels = [...series.panels];
+  const [moved] = panels.splice(from, 1);
+  panels.splice(to, 0, moved);
+  return { ...series, panels, updatedAt: Date.now() };
+};
+
+// The first panel with an image anchors the look of every other panel
+export const findStyleAnchor = (series: InfographicSeries, images: GeneratedImage[], exceptPanelId?: string): GeneratedImage | undefined => {
+  for (const panel of series.panels) {
+    if (panel.id === exceptPanelId || !panel.imageId) continue;
+    const image = images.find(img => img.id === panel.imageId);
+    if (image) return image;
+  }
+  return undefined;
+};
+
+// Storyboard order, skipping panels that were never generated or whose image is gone
+export const orderedSeriesImages = (series: InfographicSeries, images: GeneratedImage[]): GeneratedImage[] =>
+  series.panels
+    .map(panel => images.find(img => img.id === panel.imageId))
+    .filter((img): img is GeneratedImage => img !== undefined);
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BudgetPeriod, ImageResolution, ModelPrice, ModelUsage, PriceTable, TokenUsage, UsageBudget, UsageEntry, UsageSummary, UsageTask } from "../types";
+import { getGenerationModels } from "./config";
+
+const USAGE_LOG_STORAGE_KEY = 'infogenius_usage_log';
+const PRICES_STORAGE_KEY = 'infogenius_usage_prices';
+const BUDGET_STORAGE_KEY = 'infogenius_usage_budget';
+
+// The ledger only feeds the dashboard, so old entries are dropped to keep localStorage small
+const MAX_LOG_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_LOG_ENTRIES = 5000;
+
+// List prices when this table was written; users can correct them in the usage dashboard
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 12, perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30, perImage: { '1K': 0.039 } },
+};
+
+export interface UsageMeter {
+  record: (entry: UsageEntry) => void;
+  summary: () => UsageSummary | undefined;
+}
+
+const emptyModelUsage = (): ModelUsage => ({ promptTokens: 0, outputTokens: 0, thinkingTokens: 0, calls: 0, images: {} });
+
+const addEntry = (summary: UsageSummary, entry: UsageEntry): UsageSummary => {
+  const current = summary[entry.model] || emptyModelUsage();
+  const images = { ...current.images };
+  if (entry.resolution) images[entry.resolution] = (images[entry.resolution] || 0) + 1;
+  return {
+    ...summary,
+    [entry.model]: {
+      promptTokens: current.promptTokens + entry.promptTokens,
+      outputTokens: current.outputTokens + entry.outputTokens,
+      thinkingTokens: current.thinkingTokens + entry.thinkingTokens,
+      calls: current.calls + 1,
+      images,
+    },
+  };
+};
+
+export const summarizeUsage = (entries: UsageEntry[]): UsageSummary => entries.reduce(addEntry, {});
+
+export const listUsageEntries = (): UsageEntry[] => {
+  try {
+    const saved = localStorage.getItem(USAGE_LOG_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to parse usage log", e);
+    return [];
+  }
+};
+
+const recordUsageEntry = (entry: UsageEntry) => {
+  const cutoff = Date.now() - MAX_LOG_AGE_MS;
+  const entries = [...listUsageEntries().filter(e => e.timestamp >= cutoff), entry].slice(-MAX_LOG_ENTRIES);
+  try {
+    localStorage.setItem(USAGE_LOG_STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error("Failed to save usage log", e);
+  }
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(USAGE_LOG_STORAGE_KEY);
+};
+
+// Collects the calls made for one image; pipelines create one per run
+export const createUsageMeter = (): UsageMeter => {
+  let summary: UsageSummary = {};
+  return {
+    record: (entry) => { summary = addEntry(summary, entry); },
+    summary: () => Object.keys(summary).length > 0 ? summary : undefined,
+  };
+};
+
+// Usage callback for a provider request: every call goes into the ledger, and into the meter when there is one.
+// Mock calls are filed under the provider name so they never pick up real model prices.
+// Image calls that returned no image are billed by token, so they are logged without a resolution.
+export const trackUsage = (task: UsageTask, meter?: UsageMeter, resolution?: ImageResolution) => (usage: TokenUsage, returnedImage: boolean = true) => {
+  const models = getGenerationModels();
+  const model = models.provider === 'mock'
+    ? 'mock'
+    : task === 'generate' ? models.imageModel : task === 'edit' ? models.editModel : models.textModel;
+  const entry: UsageEntry = { timestamp: Date.now(), task, model, resolution: returnedImage ? resolution : undefined, ...usage };
+  recordUsageEntry(entry);
+  meter?.record(entry);
+};
+
+export const getPriceTable = (): PriceTable => {
+  try {
+    const saved = localStorage.getItem(PRICES_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_PRICES;
+  } catch (e) {
+    console.error("Failed to parse saved price table", e);
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePriceTable = (prices: PriceTable) => {
+  localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+export const resetPriceTable = () => {
+  localStorage.removeItem(PRICES_STORAGE_KEY);
+};
+
+// Image models charge per returned image, so their output tokens are not billed again
+const estimateModelCost = (usage: ModelUsage, price: ModelPrice): number => {
+  const input = usage.promptTokens * price.inputPerMillion / 1e6;
+  if (price.perImage && Object.keys(usage.images).length > 0) {
+    const images = (Object.entries(usage.images) as [ImageResolution, number][])
+      .reduce((total, [resolution, count]) => total + count * (price.perImage![resolution] ?? 0), 0);
+    return input + images;
+  }
+  return input + (usage.outputTokens + usage.thinkingTokens) * price.outputPerMillion / 1e6;
+};
+
+// Models missing from the price table count as free; the dashboard lists them so the table can be completed
+export const estimateCost = (summary: UsageSummary | undefined, prices: PriceTable): number =>
+  Object.entries(summary || {}).reduce((total, [model, usage]) => total + (prices[model] ? estimateModelCost(usage, prices[model]) : 0), 0);
+
+export const totalTokens = (summary: UsageSummary | undefined): number =>
+  Object.values(summary || {}).reduce((total, usage) => total + usage.promptTokens + usage.outputTokens + usage.thinkingTokens, 0);
+
+export const countUsageImages = (summary: UsageSummary | undefined): Partial<Record<ImageResolution, number>> => {
+  const counts: Partial<Record<ImageResolution, number>> = {};
+  Object.values(summary || {}).forEach(usage => {
+    (Object.entries(usage.images) as [ImageResolution, number][]).forEach(([resolution, count]) => {
+      counts[resolution] = (counts[resolution] || 0) + count;
+    });
+  });
+  return counts;
+};
+
+export const formatCost = (cost: number): string => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+// Local midnight, and local midnight on the most recent Monday
+export const periodStart = (period: BudgetPeriod, now: number = Date.now()): number => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start.getTime();
+};
+
+export const getUsageBudget = (): UsageBudget | null => {
+  try {
+    const saved = localStorage.getItem(BUDGET_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Failed to parse usage budget", e);
+    return null;
+  }
+};
+
+export const saveUsageBudget = (budget: UsageBudget | null) => {
+  if (budget) localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  else localStorage.removeItem(BUDGET_STORAGE_KEY);
+};
+
+// Soft budget: only 4K generations are checked, and the user can still go ahead.
+// Runs that produce several images (batches, series) pass how many, so the whole run is priced up front.
+export const getBudgetWarning = (resolution: ImageResolution, imageCount: number = 1): string | null => {
+  const budget = getUsageBudget();
+  if (!budget || resolution !== '4K' || imageCount < 1) return null;
+  const prices = getPriceTable();
+  const models = getGenerationModels();
+  const spent = estimateCost(summarizeUsage(listUsageEntries().filter(e => e.timestamp >= periodStart(budget.period))), prices);
+  const imagePrice = models.provider === 'mock' ? 0 : prices[models.imageModel]?.perImage?.['4K'] ?? 0;
+  const runPrice = imagePrice * imageCount;
+  if (spent + runPrice <= budget.limit) return null;
+  const periodName = budget.period === 'day' ? "today's" : "this week's";
+  const subject = imageCount === 1 ? 'This 4K image costs' : `These ${imageCount} 4K images cost`;
+  return `${subject} about ${formatCost(runPrice)} and would take ${periodName} estimated spend to ${formatCost(spent + runPrice)}, over your ${formatCost(budget.limit)} budget. Generate anyway?`;
+};
+
+export interface UsageBucket {
+  start: number;
+  summary: UsageSummary;
+}
+
+// The `count` most recent days or weeks, newest first, including the empty ones
+export const bucketUsage = (entries: UsageEntry[], period: BudgetPeriod, count: number, now: number = Date.now()): UsageBucket[] => {
+  const buckets: UsageBucket[] = [];
+  let end = Infinity;
+  let start = periodStart(period, now);
+  for (let i = 0; i < count; i++) {
+    const [from, to] = [start, end];
+    buckets.push({ start: from, summary: summarizeUsage(entries.filter(entry => entry.timestamp >= from && entry.timestamp < to)) });
+    const previous = new Date(from);
+    previous.setDate(previous.getDate() - (period === 'day' ? 1 : 7));
+    end = from;
+    start = previous.getTime();
+  }
+  return buckets;
+};
@@ -6,12 +6,88 @@ export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '9:16' | '16:9
 
 export type ImageResolution = '1K' | '2K' | '4K';
 
-export type ComplexityLevel = 'Elementary' | 'High School' | 'College' | 'Expert';
+// User-defined presets are referenced as `custom:<id>` wherever a built-in level or style is accepted
+export type CustomPresetId = `custom:${string}`;
 
-export type VisualStyle = 'Default' | 'Minimalist' | 'Realistic' | 'Cartoon' | 'Vintage' | 'Futuristic' | '3D Render' | 'Sketch';
+export type BuiltInComplexityLevel = 'Elementary' | 'High School' | 'College' | 'Expert';
+export type ComplexityLevel = BuiltInComplexityLevel | CustomPresetId;
+
+export type BuiltInVisualStyle = 'Default' | 'Minimalist' | 'Realistic' | 'Cartoon' | 'Vintage' | 'Futuristic' | '3D Render' | 'Sketch';
+export type VisualStyle = BuiltInVisualStyle | CustomPresetId;
+
+export type PresetKind = 'audience' | 'style';
+
+export interface CustomPreset {
+  id: CustomPresetId;
+  kind: PresetKind;
+  name: string;
+  prompt: string; // Replaces the built-in audience or aesthetic instruction
+  thumbnail?: string; // Small JPEG data URL
+  updatedAt: number;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  colors: string[]; // Allowed palette as #rrggbb
+  fonts: string; // Font family descriptions, e.g. "Geometric sans-serif like Futura for headings"
+  logo?: string; // Data URL, attached to generations as a required asset
+  footerText?: string; // Text that must appear in the footer, e.g. a copyright line
+  forbidden: string[]; // Elements that must never appear
+  tolerance: number; // Largest share of off-palette pixels (0-1) still considered on-brand
+  autoFix: boolean; // Recolor off-brand images automatically after generation
+  updatedAt: number;
+}
+
+export interface DominantColor {
+  hex: string;
+  share: number; // Fraction of sampled pixels (0-1)
+  onBrand: boolean;
+  nearest?: string; // Closest palette color
+}
+
+export interface BrandCheck {
+  kitId: string;
+  kitName: string;
+  palette: string[];
+  colors: DominantColor[];
+  offBrandShare: number; // Fraction of non-neutral pixels too far from every palette color
+  isOnBrand: boolean;
+  fixRounds: number; // Automatic recolor passes applied before the final check
+}
 
 export type Language = 'English' | 'Spanish' | 'French' | 'German' | 'Mandarin' | 'Japanese' | 'Hindi' | 'Arabic' | 'Portuguese' | 'Russian';
 
+export interface GenerationSettings {
+  level: ComplexityLevel;
+  style: VisualStyle;
+  language: Language;
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+  brandKitId?: string; // Brand kit whose constraints are enforced; unset means no brand constraints
+}
+
+export interface ImageCollectionRef {
+  id: string;
+  name: string;
+}
+
+// Rectangle in fractions of the image size (0-1), so it survives resolution changes
+export interface EditRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Provider and model names in effect when an image was produced
+export interface GenerationModels {
+  provider: string;
+  textModel: string;
+  imageModel: string;
+  editModel: string;
+}
+
 export interface GeneratedImage {
   id: string;
   data: string; // Base64 data URL
@@ -22,17 +98,256 @@ export interface GeneratedImage {
   language?: Language;
   aspectRatio?: AspectRatio;
   resolution?: ImageResolution;
+  verification?: VerificationReport;
+  research?: ResearchResult; // Facts, composition prompt and grounding sources behind this image
+  parentId?: string; // Image this one was edited from; undefined for originals
+  revision?: number; // 0 for originals, parent revision + 1 for each edit
+  collection?: ImageCollectionRef; // Set for images produced together by a batch run
+  variantOf?: string; // Canonical image whose research this language variant was translated from
+  sourceSnapshots?: UrlSnapshot[]; // URL context sources as fetched at generation time
+  models?: GenerationModels;
+  editRegion?: EditRegion; // Area a region edit was limited to; unset for whole-image edits
+  customPresets?: CustomPreset[]; // Copies (without thumbnails) of custom presets referenced by level/style
+  brandCheck?: BrandCheck; // Palette compliance against the brand kit used for generation
+  usage?: UsageSummary; // Model calls that produced this image (not its parent's)
+  seriesPanel?: SeriesPanelRef; // Set for panels generated for a series storyboard
+  importedFromId?: string; // Id in the exporting archive, when an imported PNG was re-keyed because that id was taken here
+}
+
+export interface SeriesPanelRef {
+  seriesId: string;
+  panelId: string;
 }
 
+// Look every panel of a series shares, so the panels read as one set
+export interface SeriesStyleGuide {
+  palette: string[]; // #rrggbb
+  typography: string;
+  motifs: string[]; // Recurring visual elements, e.g. "a small compass icon marks every key number"
+  description: string; // Overall art direction
+}
+
+export interface SeriesPanel {
+  id: string;
+  title: string;
+  facts: ResearchFact[]; // Citations index into the series research's searchResults
+  imagePrompt: string;
+  imageId?: string; // Latest image generated for this panel
+}
+
+export interface InfographicSeries {
+  id: string;
+  topic: string;
+  title: string;
+  settings: GenerationSettings;
+  research: ResearchResult; // Shared research the panels' facts were split from
+  styleGuide: SeriesStyleGuide;
+  panels: SeriesPanel[]; // Storyboard order
+  planningUsage?: UsageSummary; // Research and outline calls; each panel image carries its own usage
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type UsageTask = 'research' | 'series' | 'verify' | 'translate' | 'summarize' | 'generate' | 'edit';
+
+// As reported in the API's usageMetadata
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+}
+
+export interface ModelUsage extends TokenUsage {
+  calls: number;
+  images: Partial<Record<ImageResolution, number>>; // Images returned, by requested resolution
+}
+
+// Keyed by model name, so costs can be estimated with each model's own rates
+export type UsageSummary = Record<string, ModelUsage>;
+
+// One model call in the usage ledger
+export interface UsageEntry extends TokenUsage {
+  timestamp: number;
+  task: UsageTask;
+  model: string;
+  resolution?: ImageResolution; // Image calls only
+}
+
+// USD rates; image models are billed per image instead of per output token
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number; // Also applied to thinking tokens
+  perImage?: Partial<Record<ImageResolution, number>>;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type BudgetPeriod = 'day' | 'week';
+
+export interface UsageBudget {
+  limit: number; // USD
+  period: BudgetPeriod;
+}
+
+export type LocalizeMode = 'edit' | 'regenerate';
+
 export interface SearchResultItem {
   title: string;
   url: string;
 }
 
+export interface ResearchFact {
+  text: string;
+  sourceIndices: number[]; // Indices into ResearchResult.searchResults
+  groundingIndices: number[]; // Indices into ResearchResult.searchResults backed by groundingSupports; empty means unverified
+}
+
+export interface ResearchSection {
+  heading: string;
+  summary: string;
+}
+
+export interface KeyNumber {
+  label: string;
+  value: string;
+}
+
 export interface ResearchResult {
+  title: string;
   imagePrompt: string;
-  facts: string[];
+  facts: ResearchFact[];
+  sections: ResearchSection[];
+  keyNumbers: KeyNumber[];
   searchResults: SearchResultItem[];
+  reviewedAt?: number; // Set when the user edited and approved this plan before the image was generated
+}
+
+// Snapshot of a research request that is still streaming
+export interface ResearchProgress {
+  facts: ResearchFact[]; // Facts completed so far; citations are only resolved once the response is complete
+  sources: SearchResultItem[];
+  outputTokens: number;
+}
+
+export type VerificationIssueType = 'spelling' | 'number' | 'missing_fact' | 'other';
+
+export interface VerificationIssue {
+  type: VerificationIssueType;
+  description: string;
+}
+
+export interface VerificationResult {
+  isAccurate: boolean;
+  unverified?: boolean; // The checker's response could not be read, so nothing is known about accuracy
+  critique: string;
+  issues: VerificationIssue[];
+}
+
+export interface VerificationReport extends VerificationResult {
+  fixRounds: number; // Number of automatic fix passes applied before the final check
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchRow {
+  id: string;
+  topic: string;
+  level?: ComplexityLevel;
+  style?: VisualStyle;
+  language?: Language;
+  aspectRatio?: AspectRatio;
+}
+
+export type JobKind = 'generate' | 'edit' | 'localize' | 'seriesPanel';
+
+// 'review': paused until the research plan is approved; 'interrupted': was unfinished when the page closed
+export type JobStatus = 'queued' | 'running' | 'review' | 'done' | 'failed' | 'cancelled' | 'interrupted';
+
+// Everything a job needs to run again after a reload; sources are full images so they outlive eviction
+export type JobInput =
+  | { kind: 'generate'; topic: string; settings: GenerationSettings; context: string | null; references: ReferenceImage[]; snapshots: UrlSnapshot[]; reviewPlan: boolean; collection?: ImageCollectionRef }
+  | { kind: 'edit'; source: GeneratedImage; instruction: string; region?: EditRegion }
+  | { kind: 'localize'; source: GeneratedImage; language: Language; mode: LocalizeMode }
+  // styleAnchor is filled in from the `after` job's result when the panel waits for the series' first panel
+  | { kind: 'seriesPanel'; series: InfographicSeries; panelId: string; styleAnchor?: GeneratedImage };
+
+export interface GenerationJob {
+  id: string;
+  label: string;
+  input: JobInput;
+  status: JobStatus;
+  createdAt: number; // Results enter the history in this order
+  startedAt?: number;
+  finishedAt?: number;
+  step: number;
+  message: string;
+  error?: string;
+  progress?: ResearchProgress; // Live research while it streams; not persisted
+  plan?: ResearchResult; // Research awaiting approval while status is 'review'
+  result?: GeneratedImage; // Held until every earlier job has settled, then delivered to the history
+  resultId?: string; // Id of the delivered image
+  originImageId?: string; // Image on screen when the job was queued; the result only replaces it if it is still shown
+  after?: string; // Job that must settle before this one starts
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number | null; // Browser-wide origin quota, when the Storage API reports one
+  imageCount: number;
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'html' | 'markdown' | 'text';
+
+export interface ExtractedTable {
+  name?: string;
+  rows: string[][]; // First row is treated as the header
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  tables: ExtractedTable[];
+}
+
+// 'fallback': a URL that could not be fetched and is passed to the model as a bare link
+export type ContextSourceStatus = 'processing' | 'ready' | 'fallback' | 'error';
+
+// How an image context source is used: follow its arrangement, borrow its look, or reproduce it in the result
+export type ImageContextRole = 'layout' | 'style' | 'asset';
+
+export interface ReferenceImage {
+  name: string;
+  data: string; // Base64 data URL
+  role: ImageContextRole;
+}
+
+// Readable copy of a fetched URL context source, kept with the image so its sources survive link rot
+export interface UrlSnapshot {
+  url: string;
+  finalUrl: string; // After redirects, when the fetcher reports it
+  title: string;
+  siteName?: string;
+  byline?: string;
+  publishedAt?: string;
+  description?: string;
+  fetchedAt: number;
+  text: string;
+}
+
+export interface ContextSource {
+  id: string;
+  type: 'file' | 'url' | 'image';
+  name: string;
+  content: string; // Prompt-ready text: extracted body plus tables rendered as markdown, summarized when over budget. Data URL for images.
+  role?: ImageContextRole; // Image sources only
+  format?: DocumentFormat;
+  tables?: ExtractedTable[];
+  tokenEstimate?: number; // Estimate for `content` as sent to the model
+  originalTokenEstimate?: number; // Estimate before summarization
+  summarized?: boolean;
+  status?: ContextSourceStatus;
+  error?: string;
+  snapshot?: UrlSnapshot; // URL sources that were fetched
 }
 
 declare global {
@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.INFOGENIUS_PROVIDER': JSON.stringify(env.INFOGENIUS_PROVIDER),
+        'process.env.INFOGENIUS_TEXT_MODEL': JSON.stringify(env.INFOGENIUS_TEXT_MODEL),
+        'process.env.INFOGENIUS_IMAGE_MODEL': JSON.stringify(env.INFOGENIUS_IMAGE_MODEL),
+        'process.env.INFOGENIUS_EDIT_MODEL': JSON.stringify(env.INFOGENIUS_EDIT_MODEL),
+        'process.env.INFOGENIUS_URL_FETCHER': JSON.stringify(env.INFOGENIUS_URL_FETCHER)
       },
       resolve: {
         alias: {